@@ -0,0 +1,174 @@
+/**
+ * Application metadata for @checkend/nextjs
+ *
+ * Describes where a notice comes from: environment, revision, app name,
+ * Next.js version, runtime, hostname and region. Values that aren't
+ * configured are detected from common CI and hosting environment variables.
+ */
+
+import { getConfig } from './config'
+import type { ExceptionRuntime } from './ignored-exceptions'
+import { stripUndefined } from './utils'
+
+type Env = Record<string, string | undefined>
+
+/**
+ * Metadata included with every notice
+ */
+export interface AppInfo {
+  environment?: string
+  revision?: string
+  appName?: string
+  nextVersion?: string
+  runtime: ExceptionRuntime
+  hostname?: string
+  region?: string
+}
+
+// Doesn't change while the process runs; null once detection failed
+let nextVersion: string | null | undefined
+
+/**
+ * Environment variables holding the deployed commit, in order of precedence
+ */
+export const REVISION_ENV_VARS = [
+  'CHECKEND_REVISION',
+  'VERCEL_GIT_COMMIT_SHA',
+  'NEXT_PUBLIC_VERCEL_GIT_COMMIT_SHA',
+  'GITHUB_SHA',
+  // Heroku
+  'SOURCE_VERSION',
+  'HEROKU_SLUG_COMMIT',
+  // Netlify
+  'COMMIT_REF',
+  'CF_PAGES_COMMIT_SHA',
+  'RENDER_GIT_COMMIT',
+  'RAILWAY_GIT_COMMIT_SHA',
+  // AWS Amplify
+  'AWS_COMMIT_ID',
+  'CI_COMMIT_SHA',
+  'BITBUCKET_COMMIT',
+  'CIRCLE_SHA1',
+  'GIT_COMMIT',
+]
+
+/**
+ * Environment variables holding the region the code runs in
+ */
+export const REGION_ENV_VARS = ['VERCEL_REGION', 'FLY_REGION', 'AWS_REGION', 'AWS_DEFAULT_REGION']
+
+/**
+ * Detect the deployed revision from CI and hosting environment variables
+ */
+export function detectRevision(env: Env = readEnv()): string | undefined {
+  return firstSet(env, REVISION_ENV_VARS)
+}
+
+/**
+ * Metadata for a notice reported from the given runtime.
+ * Configured values win over detected ones.
+ */
+export function getAppInfo(runtime: ExceptionRuntime): AppInfo {
+  const config = getConfig()
+  const env = readEnv()
+
+  return stripUndefined({
+    environment: config.environment || process.env.NODE_ENV,
+    revision: config.revision || detectRevision(env),
+    appName: config.appName,
+    nextVersion: getNextVersion(),
+    runtime,
+    hostname: runtime === 'client' ? undefined : detectHostname(env),
+    region: runtime === 'client' ? undefined : firstSet(env, REGION_ENV_VARS),
+  })
+}
+
+function getNextVersion(): string | undefined {
+  if (nextVersion === undefined) nextVersion = detectNextVersion() ?? null
+  return nextVersion ?? undefined
+}
+
+function detectNextVersion(): string | undefined {
+  // Set by the Next.js client runtime
+  if (typeof window !== 'undefined') {
+    const next = (window as { next?: { version?: unknown } }).next
+    if (typeof next?.version === 'string') return next.version
+  }
+
+  const version = readEnv().__NEXT_VERSION
+  if (version) return version
+
+  const require = nodeRequire()
+  if (!require) return undefined
+  try {
+    return (require('next/package.json') as { version?: string }).version
+  } catch {
+    return undefined
+  }
+}
+
+function detectHostname(env: Env): string | undefined {
+  const os = getBuiltinModule('os') as { hostname?: () => string } | undefined
+  try {
+    const hostname = os?.hostname?.()
+    if (hostname) return hostname
+  } catch {
+    // Fall back to the environment
+  }
+  return env.HOSTNAME || undefined
+}
+
+/**
+ * A require() resolving from the app root, on Node.js only.
+ * Builtins are looked up at runtime so bundlers for the Edge runtime and
+ * the browser never see them.
+ */
+function nodeRequire(): ((id: string) => unknown) | undefined {
+  const module = getBuiltinModule('module') as
+    | { createRequire?: (path: string) => (id: string) => unknown }
+    | undefined
+  if (!module?.createRequire) return undefined
+  try {
+    return module.createRequire(`${process.cwd()}/`)
+  } catch {
+    return undefined
+  }
+}
+
+// Loads builtins where process.getBuiltinModule() is missing. Set by the
+// server entry, so browser and edge bundles contain no require().
+let builtinLoader: ((id: string) => unknown) | undefined
+
+/**
+ * Load Node.js builtins with `loader` where process.getBuiltinModule()
+ * is missing (before Node.js 20.16 and 22.3)
+ */
+export function setBuiltinModuleLoader(loader: (id: string) => unknown): void {
+  builtinLoader = loader
+}
+
+/**
+ * A Node.js builtin module, or undefined outside Node.js
+ */
+export function getBuiltinModule(id: string): unknown {
+  if (typeof process === 'undefined') return undefined
+  const getBuiltin = (process as { getBuiltinModule?: (id: string) => unknown }).getBuiltinModule
+  try {
+    if (typeof getBuiltin === 'function') return getBuiltin.call(process, id)
+    return builtinLoader?.(id)
+  } catch {
+    return undefined
+  }
+}
+
+function readEnv(): Env {
+  return typeof process !== 'undefined' && process.env ? process.env : {}
+}
+
+function firstSet(env: Env, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = env[name]
+    if (value) return value
+  }
+  return undefined
+}
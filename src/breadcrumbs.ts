@@ -0,0 +1,118 @@
+/**
+ * Breadcrumbs for @checkend/nextjs
+ *
+ * A record of what happened before an error: requests handled, actions
+ * invoked, middleware rewrites and anything the app adds with
+ * `addBreadcrumb()`. Every notice carries the breadcrumbs of the request it
+ * was reported from. Buffers are scoped per request with AsyncLocalStorage
+ * (`runWithBreadcrumbs()`, used by `runWithContext()` on the server and by
+ * the middleware wrapper on the edge); breadcrumbs added outside a request
+ * are dropped, as they could belong to any request. Where there's no
+ * AsyncLocalStorage, as in the browser, all breadcrumbs share one buffer.
+ * Each buffer keeps the last `maxBreadcrumbs`.
+ */
+
+import { getConfig, isInitialized } from './config'
+import { getBuiltinModule } from './app-info'
+
+export type BreadcrumbLevel = 'debug' | 'info' | 'warning' | 'error'
+
+export interface Breadcrumb {
+  /** What kind of event this was, e.g. 'route', 'action', 'middleware' */
+  category: string
+  message: string
+  level: BreadcrumbLevel
+  /** Details, sanitized like context data before they're sent */
+  data?: Record<string, unknown>
+  /** ISO 8601 time the breadcrumb was added */
+  timestamp: string
+}
+
+export type BreadcrumbInput = Pick<Breadcrumb, 'category' | 'message'> &
+  Partial<Pick<Breadcrumb, 'level' | 'data'>>
+
+export const DEFAULT_MAX_BREADCRUMBS = 40
+
+interface Storage<T> {
+  getStore(): T | undefined
+  run<R>(store: T, fn: () => R): R
+}
+
+type StorageConstructor = new <T>() => Storage<T>
+
+// Undefined until first used, null where AsyncLocalStorage isn't available
+let storage: Storage<Breadcrumb[]> | null | undefined
+
+// Breadcrumbs, where AsyncLocalStorage isn't available
+const globalBuffer: Breadcrumb[] = []
+
+/**
+ * Record a breadcrumb in the current request's buffer
+ */
+export function addBreadcrumb(input: BreadcrumbInput): void {
+  const max = maxBreadcrumbs()
+  if (max <= 0) return
+
+  const buffer = currentBuffer()
+  if (!buffer) return
+
+  buffer.push({
+    category: input.category,
+    message: input.message,
+    level: input.level ?? 'info',
+    data: input.data,
+    timestamp: new Date().toISOString(),
+  })
+  if (buffer.length > max) buffer.splice(0, buffer.length - max)
+}
+
+/**
+ * The breadcrumbs of the current request, oldest first
+ */
+export function getBreadcrumbs(): Breadcrumb[] {
+  const buffer = currentBuffer()
+  const max = maxBreadcrumbs()
+  return buffer && max > 0 ? buffer.slice(-max) : []
+}
+
+/**
+ * Empty the current request's buffer
+ */
+export function clearBreadcrumbs(): void {
+  const buffer = currentBuffer()
+  if (buffer) buffer.length = 0
+}
+
+/**
+ * Run a function with its own breadcrumb buffer. Without
+ * AsyncLocalStorage the function shares the global buffer.
+ */
+export function runWithBreadcrumbs<T>(fn: () => T): T {
+  const current = getStorage()
+  if (!current) return fn()
+  return current.run([], fn)
+}
+
+// The scope's buffer; none outside a scope, unless AsyncLocalStorage isn't available
+function currentBuffer(): Breadcrumb[] | undefined {
+  const current = getStorage()
+  return current ? current.getStore() : globalBuffer
+}
+
+function maxBreadcrumbs(): number {
+  if (!isInitialized()) return DEFAULT_MAX_BREADCRUMBS
+  return getConfig().maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS
+}
+
+function getStorage(): Storage<Breadcrumb[]> | null {
+  if (storage === undefined) {
+    // Next.js provides AsyncLocalStorage globally on the edge; Node.js has it in async_hooks
+    const global = (globalThis as { AsyncLocalStorage?: StorageConstructor }).AsyncLocalStorage
+    const asyncHooks = getBuiltinModule('async_hooks') as
+      | { AsyncLocalStorage?: StorageConstructor }
+      | undefined
+    const Constructor = global ?? asyncHooks?.AsyncLocalStorage
+    storage = Constructor ? new Constructor<Breadcrumb[]>() : null
+  }
+  return storage
+}
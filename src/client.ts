@@ -5,11 +5,38 @@
  * Wraps @checkend/browser for use in Next.js client components
  */
 
-import type { CheckendUser } from './config'
-import { getConfig, isInitialized, shouldIgnoreException, applyBeforeSend } from './config'
+import type { CheckendUser, CheckendPublicConfig } from './config'
+import {
+  processError,
+  prepareNotice,
+  sanitizeGlobalContext,
+  sanitizeGlobalUser,
+} from './pipeline'
+import { toSdkNotifyOptions } from './event'
+import { detectRevision } from './app-info'
+import { toError } from './throwable'
+import {
+  init,
+  getConfig,
+  isInitialized,
+  getSdkIgnoreOptions,
+  resolvePublicConfig,
+} from './config'
+
+/**
+ * Options accepted by notify() and notifySync()
+ */
+export interface NotifyOptions {
+  context?: Record<string, unknown>
+  user?: CheckendUser
+  tags?: string[]
+  fingerprint?: string
+  /** Route the error happened on, used for per-route sample rates */
+  route?: string
+}
 
 // Re-export types
-export type { CheckendUser }
+export type { CheckendUser, CheckendPublicConfig }
 
 // We'll dynamically import @checkend/browser to avoid SSR issues
 let browserSdk: typeof import('@checkend/browser') | null = null
@@ -25,17 +52,33 @@ async function getBrowserSdk() {
 /**
  * Initialize the client-side SDK.
  * This is called automatically by CheckendProvider.
+ *
+ * The server's init() does not run in the browser bundle, so the client
+ * bootstraps its own configuration from the given public config or the
+ * NEXT_PUBLIC_CHECKEND_* environment variables.
  */
-export async function initClient(): Promise<void> {
+export async function initClient(publicConfig?: Partial<CheckendPublicConfig>): Promise<void> {
   if (initialized) return
   if (typeof window === 'undefined') return
 
   if (!isInitialized()) {
-    console.warn(
-      '[Checkend] Client SDK initialized before calling init(). ' +
-        'Make sure to call init() in instrumentation.ts'
-    )
-    return
+    let resolved: CheckendPublicConfig | null
+    try {
+      resolved = resolvePublicConfig(publicConfig)
+    } catch (error) {
+      console.error('[Checkend] Invalid client configuration:', error)
+      return
+    }
+
+    if (!resolved) {
+      console.warn(
+        '[Checkend] Client SDK has no configuration. ' +
+          'Pass a config to CheckendProvider or set NEXT_PUBLIC_CHECKEND_API_KEY'
+      )
+      return
+    }
+
+    init(resolved)
   }
 
   const config = getConfig()
@@ -52,20 +95,19 @@ export async function initClient(): Promise<void> {
       apiKey: config.apiKey,
       endpoint: config.endpoint,
       environment: config.environment,
-      ignoredExceptions: config.ignoredExceptions,
-      filterKeys: config.filterKeys,
+      appName: config.appName,
+      revision: config.revision || detectRevision(),
+      ...getSdkIgnoreOptions('client'),
+      // Paths, globs and RegExps are applied by sanitize() before the SDK sees the data
+      filterKeys: config.filterKeys?.filter((key): key is string => typeof key === 'string'),
       debug: config.debug,
-      beforeNotify: config.beforeSend
-        ? [
-            (notice: unknown) => {
-              const result = applyBeforeSend(notice as any)
-              return result !== null
-            },
-          ]
-        : undefined,
+      // Reported by our own handlers, so they go through the pipeline like notify()
+      captureUncaughtExceptions: false,
+      captureUnhandledRejections: false,
     })
 
     initialized = true
+    installGlobalHandlers()
 
     if (config.debug) {
       console.log('[Checkend] Client SDK initialized')
@@ -76,46 +118,50 @@ export async function initClient(): Promise<void> {
 }
 
 /**
- * Report an error to Checkend (async, non-blocking)
+ * Report uncaught errors and unhandled rejections with notify(), so they
+ * are sampled, deduplicated, filtered and passed to beforeSend like errors
+ * reported by the wrappers
  */
-export async function notify(
-  error: Error,
-  options?: {
-    context?: Record<string, unknown>
-    user?: CheckendUser
-    tags?: string[]
-    fingerprint?: string
-  }
-): Promise<void> {
+function installGlobalHandlers(): void {
+  window.addEventListener('error', (event) => {
+    // Errors from cross-origin scripts arrive as "Script error." without details
+    if (event.error === undefined || event.error === null) return
+    void notify(toError(event.error), { tags: ['uncaught'] })
+  })
+  window.addEventListener('unhandledrejection', (event) => {
+    void notify(toError(event.reason), { tags: ['unhandledrejection'] })
+  })
+}
+
+/**
+ * Report an error to Checkend (async, non-blocking).
+ * Identical errors within `dedupeWindow` are reported once, followed by a
+ * single notice carrying the duplicate count.
+ */
+export async function notify(error: Error, options?: NotifyOptions): Promise<void> {
   if (typeof window === 'undefined') return
-  if (shouldIgnoreException(error)) return
 
-  try {
+  const route = options?.route ?? window.location.pathname
+  await processError(error, { ...options, route, runtime: 'client' }, async (notice) => {
     const sdk = await getBrowserSdk()
-    sdk.notify(error, options)
-  } catch (e) {
-    console.error('[Checkend] Failed to notify:', e)
-  }
+    sdk.notify(notice.error, toSdkNotifyOptions(notice.event))
+  })
 }
 
 /**
- * Report an error to Checkend (sync, returns promise)
+ * Report an error to Checkend (sync, returns promise).
+ * Always sends, without deduplication.
  */
-export async function notifySync(
-  error: Error,
-  options?: {
-    context?: Record<string, unknown>
-    user?: CheckendUser
-    tags?: string[]
-    fingerprint?: string
-  }
-): Promise<{ id: string } | null> {
+export async function notifySync(error: Error, options?: NotifyOptions): Promise<{ id: string } | null> {
   if (typeof window === 'undefined') return null
-  if (shouldIgnoreException(error)) return null
 
   try {
+    const route = options?.route ?? window.location.pathname
+    const notice = await prepareNotice(error, { ...options, route, runtime: 'client' })
+    if (!notice) return null
+
     const sdk = await getBrowserSdk()
-    const result = await sdk.notifySync(error, options)
+    const result = await sdk.notifySync(notice.error, toSdkNotifyOptions(notice.event))
     if (result && 'id' in result) {
       return { id: String(result.id) }
     }
@@ -127,7 +173,8 @@ export async function notifySync(
 }
 
 /**
- * Set global context that will be included with all errors
+ * Set global context that will be included with all errors,
+ * filtered like the context passed to notify()
  */
 export async function setContext(
   context: Record<string, unknown>
@@ -136,14 +183,14 @@ export async function setContext(
 
   try {
     const sdk = await getBrowserSdk()
-    sdk.setContext(context)
+    sdk.setContext(sanitizeGlobalContext(context))
   } catch (e) {
     console.error('[Checkend] Failed to setContext:', e)
   }
 }
 
 /**
- * Set the current user
+ * Set the current user, restricted to `allowKeys` like the user passed to notify()
  */
 export async function setUser(user: CheckendUser | null): Promise<void> {
   if (typeof window === 'undefined') return
@@ -151,7 +198,7 @@ export async function setUser(user: CheckendUser | null): Promise<void> {
   try {
     const sdk = await getBrowserSdk()
     if (user) {
-      sdk.setUser(user)
+      sdk.setUser(sanitizeGlobalUser(user))
     } else {
       sdk.clear()
     }
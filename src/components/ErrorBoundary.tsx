@@ -1,17 +1,21 @@
 'use client'
 
-import { Component, ErrorInfo, ReactNode } from 'react'
-import { notify } from '../client'
+import { Component, ErrorInfo, ReactNode, useEffect } from 'react'
+import { notify, type NotifyOptions } from '../client'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
+import { getErrorDigest } from '../digest'
 
 export interface CheckendErrorBoundaryProps {
   children: ReactNode
   /**
    * Fallback UI to render when an error occurs.
-   * Can be a ReactNode or a function that receives the error and reset function.
+   * Can be a ReactNode or a function that receives the error, reset function
+   * and the Next.js digest to show as a reference.
    */
   fallback?:
     | ReactNode
-    | ((props: { error: Error; reset: () => void }) => ReactNode)
+    | ((props: { error: Error; reset: () => void; digest?: string }) => ReactNode)
   /**
    * Called when an error is caught (in addition to reporting to Checkend)
    */
@@ -72,18 +76,23 @@ export class CheckendErrorBoundary extends Component<
     this.state = { hasError: false, error: null }
   }
 
-  static getDerivedStateFromError(error: Error): State {
-    return { hasError: true, error }
+  // Anything can be thrown; the fallback always gets an Error
+  static getDerivedStateFromError(thrown: unknown): State {
+    return { hasError: true, error: toError(thrown) }
   }
 
-  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+  componentDidCatch(thrown: unknown, errorInfo: ErrorInfo) {
+    // Left to Next.js, see render()
+    if (isControlFlowError(thrown)) return
+
+    const error = toError(thrown)
+
     // Report to Checkend
+    // The digest Next.js adds to server component errors is recorded by notify()
     notify(error, {
       context: {
         ...this.props.context,
         componentStack: errorInfo.componentStack,
-        // Next.js adds digest for server component errors
-        digest: (errorInfo as any).digest,
       },
       tags: this.props.tags,
     })
@@ -98,11 +107,17 @@ export class CheckendErrorBoundary extends Component<
   }
 
   render() {
+    // redirect(), notFound() and friends must reach the Next.js boundaries
+    if (this.state.error && isControlFlowError(this.state.error)) {
+      throw this.state.error
+    }
+
     if (this.state.hasError && this.state.error) {
       const { fallback } = this.props
+      const digest = getErrorDigest(this.state.error)
 
       if (typeof fallback === 'function') {
-        return fallback({ error: this.state.error, reset: this.reset })
+        return fallback({ error: this.state.error, reset: this.reset, digest })
       }
 
       if (fallback !== undefined) {
@@ -122,6 +137,11 @@ export class CheckendErrorBoundary extends Component<
           <p style={{ color: '#666', margin: '0 0 15px' }}>
             {this.state.error.message}
           </p>
+          {digest && (
+            <p style={{ color: '#666', fontSize: '12px', margin: '0 0 15px' }}>
+              Reference: <code>{digest}</code>
+            </p>
+          )}
           <button
             onClick={this.reset}
             style={{
@@ -143,3 +163,41 @@ export class CheckendErrorBoundary extends Component<
     return this.props.children
   }
 }
+
+/**
+ * Report the error an App Router error page (`error.tsx`, `global-error.tsx`)
+ * received, once per error, and return its digest. The digest is recorded on
+ * this notice and on the server notice from onRequestError, so showing it
+ * gives users a reference support can search for.
+ *
+ * @example
+ * ```tsx
+ * // app/error.tsx
+ * 'use client'
+ * import { useReportError } from '@checkend/nextjs'
+ *
+ * export default function Error({ error, reset }) {
+ *   const digest = useReportError(error)
+ *
+ *   return (
+ *     <div>
+ *       <h2>Something went wrong</h2>
+ *       {digest && <p>Reference: {digest}</p>}
+ *       <button onClick={reset}>Try again</button>
+ *     </div>
+ *   )
+ * }
+ * ```
+ */
+export function useReportError(
+  error: Error & { digest?: string },
+  options?: NotifyOptions
+): string | undefined {
+  useEffect(() => {
+    if (isControlFlowError(error)) return
+    notify(toError(error), options)
+    // Options are read once per error, so inline objects don't report it again
+  }, [error])
+
+  return getErrorDigest(error)
+}
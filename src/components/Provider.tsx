@@ -2,7 +2,7 @@
 
 import { ReactNode, useEffect, useState, createContext, useContext } from 'react'
 import { initClient, setUser, setContext, clear } from '../client'
-import type { CheckendUser } from '../config'
+import type { CheckendUser, CheckendPublicConfig } from '../config'
 
 interface CheckendContextValue {
   isReady: boolean
@@ -15,6 +15,11 @@ const CheckendContext = createContext<CheckendContextValue | null>(null)
 
 export interface CheckendProviderProps {
   children: ReactNode
+  /**
+   * Browser-safe configuration. Build it on the server with toPublicConfig().
+   * Falls back to NEXT_PUBLIC_CHECKEND_* environment variables when omitted.
+   */
+  config?: CheckendPublicConfig
   /**
    * Optional user to set on initialization
    */
@@ -32,13 +37,18 @@ export interface CheckendProviderProps {
  * @example
  * ```tsx
  * // app/layout.tsx
- * import { CheckendProvider } from '@checkend/nextjs'
+ * import { CheckendProvider, toPublicConfig } from '@checkend/nextjs'
+ *
+ * const checkendConfig = toPublicConfig({
+ *   apiKey: process.env.CHECKEND_PUBLIC_API_KEY!,
+ *   environment: process.env.NODE_ENV,
+ * })
  *
  * export default function RootLayout({ children }) {
  *   return (
  *     <html>
  *       <body>
- *         <CheckendProvider>
+ *         <CheckendProvider config={checkendConfig}>
  *           {children}
  *         </CheckendProvider>
  *       </body>
@@ -49,6 +59,7 @@ export interface CheckendProviderProps {
  */
 export function CheckendProvider({
   children,
+  config,
   user: initialUser,
   context: initialContext,
 }: CheckendProviderProps) {
@@ -56,7 +67,7 @@ export function CheckendProvider({
 
   useEffect(() => {
     async function initialize() {
-      await initClient()
+      await initClient(config)
 
       if (initialContext) {
         await setContext(initialContext)
@@ -70,7 +81,7 @@ export function CheckendProvider({
     }
 
     initialize()
-  }, [initialUser, initialContext])
+  }, [config, initialUser, initialContext])
 
   const value: CheckendContextValue = {
     isReady,
@@ -2,6 +2,38 @@
  * Shared configuration for @checkend/nextjs
  */
 
+import {
+  createValueScrubber,
+  scrubError,
+  type ScrubValuesConfig,
+  type ValueScrubber,
+} from './scrubbing'
+import { serialize } from './serializer'
+import {
+  createAllowFilter,
+  createKeyFilter,
+  type AllowFilter,
+  type FilterKeyMatching,
+  type KeyFilter,
+} from './filter-keys'
+import { createRouteMatcher, type RouteMatcher } from './route-matcher'
+import {
+  createExceptionMatcher,
+  isNativeIgnoredException,
+  isSerializableIgnoreRule,
+  type ExceptionMatcher,
+  type ExceptionRuntime,
+  type IgnoreContext,
+  type IgnoredException,
+  type IgnoreRule,
+} from './ignored-exceptions'
+import { isControlFlowError } from './control-flow'
+import type { AppInfo } from './app-info'
+import type { ErrorDetails } from './error-chain'
+import type { ShutdownEvent } from './shutdown'
+import type { Breadcrumb } from './breadcrumbs'
+import type { FetchInstrumentationOptions } from './fetch-instrumentation'
+
 export interface CheckendUser {
   id: string
   email?: string
@@ -18,6 +50,16 @@ export interface CheckendEvent {
   user?: CheckendUser
   tags?: string[]
   fingerprint?: string
+  /** Environment, revision, runtime and host the error happened on */
+  app?: AppInfo
+  /** The error this one was caused by, with its own causes */
+  cause?: ErrorDetails
+  /** Errors collected by an AggregateError */
+  errors?: ErrorDetails[]
+  /** The digest Next.js shows on error pages in place of the message */
+  digest?: string
+  /** What happened before the error, oldest first */
+  breadcrumbs?: Breadcrumb[]
 }
 
 /**
@@ -92,6 +134,14 @@ export const DEFAULT_FILTER_KEYS = [
   'connectionString',
 ]
 
+/**
+ * Default keys short enough to appear inside unrelated keys ('sin' in
+ * 'business', 'auth' in 'author', 'ssn' in 'className') match whole words.
+ * The other defaults match as substrings, so concatenated keys such as
+ * 'apikey', 'accesstoken' or 'x-csrftoken' are filtered too.
+ */
+const WORD_MATCHED_DEFAULT_KEYS = new Set(['sin', 'auth', 'ssn'])
+
 export interface CheckendNextConfig {
   /**
    * Your Checkend ingestion API key (required)
@@ -139,20 +189,69 @@ export interface CheckendNextConfig {
   enableEdge?: boolean
 
   /**
-   * Routes to ignore (won't report errors from these routes)
+   * Routes to ignore (won't report errors from these routes).
+   * Plain paths match the path and its sub-paths ('/api' ignores '/api/users'
+   * but not '/apiary'). Strings can also use the Next.js middleware `matcher`
+   * syntax ('/api/:path*', '/blog/:slug', '/((?!_next).*)'). Route groups
+   * are ignored when matching.
    */
   ignoredRoutes?: (string | RegExp)[]
 
   /**
-   * Exception patterns to ignore
+   * Locales used as the first path segment (Next.js i18n routing).
+   * When set, ignoredRoutes also match paths with a locale prefix.
    */
-  ignoredExceptions?: (string | RegExp)[]
+  locales?: string[]
+
+  /**
+   * Exceptions to ignore: names or message substrings, RegExps tested against
+   * `${name}: ${message}`, error classes (instanceof), predicates receiving
+   * the error and where it happened, or rules such as
+   * `{ name: 'AbortError', route: '/api/:path*', runtime: 'edge' }`
+   */
+  ignoredExceptions?: IgnoredException[]
+
+  /**
+   * Fraction of errors to report, between 0 and 1
+   * @default 1
+   */
+  sampleRate?: number
+
+  /**
+   * Per-error-class or per-route sample rates that override sampleRate.
+   * Keys starting with '/' match routes like `ignoredRoutes` entries, other
+   * keys match the error class name.
+   *
+   * @example { ChunkLoadError: 0.1, '/api/search': 0.25 }
+   */
+  sampleRates?: Record<string, number>
+
+  /**
+   * Window in milliseconds during which identical errors (same class, message
+   * and top stack frames) are reported only once by notify(). Duplicates are
+   * counted and reported as a single follow-up notice when the window closes,
+   * with their number (not counting the first notice) in `dedupe.duplicates`.
+   * Set to 0 to disable.
+   * @default 5000
+   */
+  dedupeWindow?: number
 
   /**
    * Keys to filter from context/request data (e.g., 'password', 'creditCard')
-   * These are merged with DEFAULT_FILTER_KEYS
+   * These are merged with DEFAULT_FILTER_KEYS.
+   * Entries can also be dotted paths ('user.address.street',
+   * 'request.headers.cookie'), globs ('*_secret') or regular expressions.
    */
-  filterKeys?: string[]
+  filterKeys?: (string | RegExp)[]
+
+  /**
+   * How plain `filterKeys` entries are matched: 'exact', 'word' (whole
+   * words, so 'auth' filters 'authToken' but not 'author') or 'substring'.
+   * DEFAULT_FILTER_KEYS keep their own matching: substrings, except for
+   * the short keys 'sin', 'auth' and 'ssn', which match whole words.
+   * @default 'word'
+   */
+  filterKeyMatching?: FilterKeyMatching
 
   /**
    * Whether to use default filter keys in addition to custom ones
@@ -160,12 +259,74 @@ export interface CheckendNextConfig {
    */
   useDefaultFilterKeys?: boolean
 
+  /**
+   * Allowlist for context, request and user data. When set, only matching
+   * fields are sent and every other value is replaced with '[FILTERED]'.
+   * Entries can be dotted paths from the notice root ('context.orderId',
+   * 'user.id', 'request.headers.user-agent'), plain keys allowed at any depth
+   * ('orderId'), globs ('context.order_*') or regular expressions.
+   * filterKeys still apply inside allowed fields.
+   */
+  allowKeys?: (string | RegExp)[]
+
+  /**
+   * Scrub PII detected in values (emails, card numbers, JWTs, bearer tokens,
+   * IBANs, IP addresses) from messages, context and request data.
+   * Pass true for all detectors with the 'mask' strategy, or a config object.
+   * @default false
+   */
+  scrubValues?: boolean | ScrubValuesConfig
+
+  /**
+   * Send the client IP address (from `x-forwarded-for` and similar headers)
+   * with request data. When off, those headers are filtered too.
+   * The address still goes through scrubValues.
+   * @default false
+   */
+  captureClientIp?: boolean
+
   /**
    * Callback before sending an event. Return null to skip sending.
    * You can have multiple callbacks by passing an array.
    */
   beforeSend?: BeforeSendCallback | BeforeSendCallback[]
 
+  /**
+   * Maximum time in milliseconds to wait for each beforeSend callback.
+   * A callback that times out is skipped and the event continues unmodified.
+   * @default 2000
+   */
+  beforeSendTimeout?: number
+
+  /**
+   * Maximum nesting of error causes and AggregateError errors sent with a notice
+   * @default 5
+   */
+  maxCauseDepth?: number
+
+  /**
+   * Number of breadcrumbs kept per request and sent with a notice.
+   * 0 disables breadcrumbs.
+   * @default 40
+   */
+  maxBreadcrumbs?: number
+
+  /**
+   * Wrap the global fetch on the server and edge to record outgoing
+   * requests as breadcrumbs. Pass `{ captureErrors: true }` to also report
+   * network failures and 5xx responses. Off unless set, as it patches fetch
+   * for the whole app.
+   * @default false
+   */
+  instrumentFetch?: boolean | FetchInstrumentationOptions
+
+  /**
+   * Group errors by their root cause: when no fingerprint is given, one is
+   * derived from the class and location of the innermost `cause`
+   * @default false
+   */
+  fingerprintRootCause?: boolean
+
   /**
    * Enable debug logging
    * @default false
@@ -201,15 +362,66 @@ export interface CheckendNextConfig {
    * @default 5000
    */
   shutdownTimeout?: number
+
+  /**
+   * Id of the build, sent with errors reported during `next build`.
+   * Set it to what `generateBuildId` returns: the BUILD_ID file Next.js
+   * writes doesn't exist yet while `generateStaticParams` runs.
+   * @default process.env.CHECKEND_BUILD_ID, then `.next/BUILD_ID`
+   */
+  buildId?: string
+
+  /**
+   * Flush pending errors when the server process shuts down, on SIGTERM,
+   * SIGINT and beforeExit. Pass false to leave shutdown alone, or the
+   * events to flush on.
+   * @default true
+   */
+  flushOnShutdown?: boolean | ShutdownEvent[]
 }
 
 /**
- * Callback type for beforeSend hooks
+ * Callback type for beforeSend hooks.
+ * May return a Promise; it is bounded by `beforeSendTimeout`.
+ */
+export type BeforeSendCallback = (
+  event: CheckendEvent
+) => CheckendEvent | null | Promise<CheckendEvent | null>
+
+/**
+ * Serializable subset of the configuration that is safe to ship to the browser.
+ * Pass it to CheckendProvider from a server component, or set the matching
+ * NEXT_PUBLIC_CHECKEND_* environment variables.
  */
-export type BeforeSendCallback = (event: CheckendEvent) => CheckendEvent | null
+export interface CheckendPublicConfig {
+  apiKey: string
+  endpoint?: string
+  environment?: string
+  appName?: string
+  revision?: string
+  enableClient?: boolean
+  ignoredRoutes?: string[]
+  ignoredExceptions?: (string | IgnoreRule)[]
+  sampleRate?: number
+  sampleRates?: Record<string, number>
+  dedupeWindow?: number
+  maxCauseDepth?: number
+  fingerprintRootCause?: boolean
+  filterKeys?: string[]
+  filterKeyMatching?: FilterKeyMatching
+  useDefaultFilterKeys?: boolean
+  allowKeys?: string[]
+  scrubValues?: boolean | ScrubValuesConfig
+  debug?: boolean
+}
 
 let globalConfig: CheckendNextConfig | null = null
 let configuredLogger: CheckendLogger | null = null
+let configuredScrubber: ValueScrubber | null = null
+let configuredKeyFilter: KeyFilter | null = null
+let configuredAllowFilter: AllowFilter | null = null
+let configuredRouteMatcher: RouteMatcher | null = null
+let configuredExceptionMatcher: ExceptionMatcher | null = null
 
 /**
  * Initialize Checkend with your configuration.
@@ -220,6 +432,22 @@ export function init(options: CheckendNextConfig): CheckendNextConfig {
     throw new Error('Checkend: apiKey is required')
   }
 
+  validateSampleRate('sampleRate', options.sampleRate)
+  for (const [key, rate] of Object.entries(options.sampleRates || {})) {
+    validateSampleRate(`sampleRates['${key}']`, rate)
+  }
+
+  // Compiled here so an invalid pattern fails init() instead of every request
+  for (const entry of options.ignoredRoutes || []) {
+    validateRoutePattern('ignoredRoutes entry', entry)
+  }
+  for (const key of Object.keys(options.sampleRates || {})) {
+    if (key.startsWith('/')) validateRoutePattern('sampleRates key', key)
+  }
+  const routeMatcher = createRouteMatcher(options.ignoredRoutes || [], {
+    locales: options.locales,
+  })
+
   globalConfig = {
     enableClient: true,
     enableServer: true,
@@ -230,12 +458,26 @@ export function init(options: CheckendNextConfig): CheckendNextConfig {
     connectTimeout: 10000,
     maxQueueSize: 1000,
     shutdownTimeout: 5000,
+    flushOnShutdown: true,
+    sampleRate: 1,
+    dedupeWindow: 5000,
+    beforeSendTimeout: 2000,
     ...options,
   }
 
   // Set up logger
   configuredLogger = globalConfig.logger || createDefaultLogger(globalConfig.debug ?? false)
 
+  configuredKeyFilter = null
+  configuredRouteMatcher = routeMatcher
+  configuredExceptionMatcher = null
+  configuredAllowFilter = globalConfig.allowKeys ? createAllowFilter(globalConfig.allowKeys) : null
+
+  // Set up value scrubbing
+  configuredScrubber = globalConfig.scrubValues
+    ? createValueScrubber(globalConfig.scrubValues === true ? {} : globalConfig.scrubValues)
+    : null
+
   if (globalConfig.debug) {
     log('debug', 'Initialized with config:', {
       ...globalConfig,
@@ -265,50 +507,270 @@ export function isInitialized(): boolean {
   return globalConfig !== null
 }
 
+/**
+ * Extract the browser-safe part of a configuration.
+ * Functions, RegExps, loggers and server-only options are dropped, and the
+ * remaining values are validated so the result can cross the server/client
+ * component boundary as plain JSON.
+ */
+export function toPublicConfig(
+  config: Partial<CheckendNextConfig> | Partial<CheckendPublicConfig>
+): CheckendPublicConfig {
+  if (typeof config.apiKey !== 'string' || !config.apiKey) {
+    throw new Error('Checkend: apiKey is required')
+  }
+
+  if (config.endpoint !== undefined) {
+    if (typeof config.endpoint !== 'string' || !isValidUrl(config.endpoint)) {
+      throw new Error(`Checkend: endpoint must be a valid URL, got ${String(config.endpoint)}`)
+    }
+  }
+
+  const publicConfig: CheckendPublicConfig = { apiKey: config.apiKey }
+
+  for (const key of ['endpoint', 'environment', 'appName', 'revision'] as const) {
+    const value = config[key]
+    if (typeof value === 'string' && value) publicConfig[key] = value
+  }
+
+  const booleanKeys = [
+    'enableClient',
+    'useDefaultFilterKeys',
+    'fingerprintRootCause',
+    'debug',
+  ] as const
+  for (const key of booleanKeys) {
+    const value = config[key]
+    if (typeof value === 'boolean') publicConfig[key] = value
+  }
+
+  if (config.sampleRate !== undefined) {
+    validateSampleRate('sampleRate', config.sampleRate)
+    publicConfig.sampleRate = config.sampleRate
+  }
+
+  if (config.sampleRates) {
+    for (const [key, rate] of Object.entries(config.sampleRates)) {
+      validateSampleRate(`sampleRates['${key}']`, rate)
+    }
+    publicConfig.sampleRates = { ...config.sampleRates }
+  }
+
+  if (typeof config.dedupeWindow === 'number' && config.dedupeWindow >= 0) {
+    publicConfig.dedupeWindow = config.dedupeWindow
+  }
+
+  if (typeof config.maxCauseDepth === 'number' && config.maxCauseDepth >= 0) {
+    publicConfig.maxCauseDepth = config.maxCauseDepth
+  }
+
+  if (
+    config.filterKeyMatching === 'exact' ||
+    config.filterKeyMatching === 'word' ||
+    config.filterKeyMatching === 'substring'
+  ) {
+    publicConfig.filterKeyMatching = config.filterKeyMatching
+  }
+
+  if (typeof config.scrubValues === 'boolean') {
+    publicConfig.scrubValues = config.scrubValues
+  } else if (config.scrubValues) {
+    publicConfig.scrubValues = JSON.parse(JSON.stringify(config.scrubValues))
+  }
+
+  if (Array.isArray(config.ignoredExceptions)) {
+    const entries = config.ignoredExceptions as unknown[]
+    // Rules made of strings survive serialization too
+    const serializable = entries.filter(
+      (item): item is string | IgnoreRule =>
+        typeof item === 'string' || isSerializableIgnoreRule(item)
+    )
+    if (serializable.length) publicConfig.ignoredExceptions = serializable
+  }
+
+  for (const key of ['ignoredRoutes', 'filterKeys'] as const) {
+    const value = config[key] as unknown[] | undefined
+    if (!Array.isArray(value)) continue
+    // Only strings survive serialization; RegExp patterns stay on the server
+    const strings = value.filter((item): item is string => typeof item === 'string')
+    if (strings.length) publicConfig[key] = strings
+  }
+
+  // An empty allowlist is meaningful (send nothing), so it's kept as is
+  if (Array.isArray(config.allowKeys)) {
+    const entries = config.allowKeys as unknown[]
+    publicConfig.allowKeys = entries.filter((item): item is string => typeof item === 'string')
+  }
+
+  return publicConfig
+}
+
+/**
+ * Resolve the public configuration for the browser SDK.
+ * Explicit values win over NEXT_PUBLIC_CHECKEND_* environment variables.
+ * Returns null when no apiKey is available from either source.
+ */
+export function resolvePublicConfig(
+  config?: Partial<CheckendPublicConfig>
+): CheckendPublicConfig | null {
+  const merged: Partial<CheckendPublicConfig> = { ...readPublicEnv(), ...config }
+  if (!merged.apiKey) return null
+  return toPublicConfig(merged)
+}
+
+/**
+ * Read NEXT_PUBLIC_CHECKEND_* variables.
+ * Each variable is referenced literally so Next.js can inline it into the client bundle.
+ */
+function readPublicEnv(): Partial<CheckendPublicConfig> {
+  if (typeof process === 'undefined' || !process.env) return {}
+
+  const env: Partial<CheckendPublicConfig> = {}
+  const apiKey = process.env.NEXT_PUBLIC_CHECKEND_API_KEY
+  const endpoint = process.env.NEXT_PUBLIC_CHECKEND_ENDPOINT
+  const environment = process.env.NEXT_PUBLIC_CHECKEND_ENVIRONMENT
+  const appName = process.env.NEXT_PUBLIC_CHECKEND_APP_NAME
+  const revision = process.env.NEXT_PUBLIC_CHECKEND_REVISION
+  const debug = process.env.NEXT_PUBLIC_CHECKEND_DEBUG
+
+  if (apiKey) env.apiKey = apiKey
+  if (endpoint) env.endpoint = endpoint
+  if (environment) env.environment = environment
+  if (appName) env.appName = appName
+  if (revision) env.revision = revision
+  if (debug) env.debug = debug === 'true' || debug === '1'
+
+  return env
+}
+
+function validateSampleRate(name: string, rate: unknown): void {
+  if (rate === undefined) return
+  if (typeof rate !== 'number' || Number.isNaN(rate) || rate < 0 || rate > 1) {
+    throw new Error(`Checkend: ${name} must be a number between 0 and 1`)
+  }
+}
+
+function validateRoutePattern(name: string, pattern: string | RegExp): void {
+  try {
+    createRouteMatcher([pattern])
+  } catch (error) {
+    throw new Error(`Checkend: ${name} '${String(pattern)}' is not a valid route pattern`, {
+      cause: error,
+    })
+  }
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
 /**
  * Reset configuration (mainly for testing)
  */
 export function reset(): void {
   globalConfig = null
   configuredLogger = null
+  configuredScrubber = null
+  configuredKeyFilter = null
+  configuredAllowFilter = null
+  configuredRouteMatcher = null
+  configuredExceptionMatcher = null
 }
 
 /**
  * Check if a route should be ignored based on configuration.
  */
 export function shouldIgnoreRoute(route: string): boolean {
-  const config = getConfig()
-  if (!config.ignoredRoutes?.length) return false
+  return getRouteMatcher()(route)
+}
 
-  return config.ignoredRoutes.some((pattern) => {
-    if (typeof pattern === 'string') {
-      return route === pattern || route.startsWith(pattern)
-    }
-    return pattern.test(route)
-  })
+/**
+ * Get the compiled matcher for `ignoredRoutes`, shared by the middleware
+ * and route handler wrappers.
+ */
+export function getRouteMatcher(): RouteMatcher {
+  const config = getConfig()
+  if (!configuredRouteMatcher) {
+    configuredRouteMatcher = createRouteMatcher(config.ignoredRoutes || [], {
+      locales: config.locales,
+    })
+  }
+  return configuredRouteMatcher
 }
 
 /**
  * Check if an exception should be ignored based on configuration.
+ * `context` tells route and runtime rules, and predicates, where the error happened.
+ * Next.js control-flow errors (redirect(), notFound()...) are always ignored.
  */
-export function shouldIgnoreException(error: Error): boolean {
+export function shouldIgnoreException(error: Error, context: IgnoreContext = {}): boolean {
+  if (isControlFlowError(error)) return true
+
   const config = getConfig()
-  if (!config.ignoredExceptions?.length) return false
+  if (!configuredExceptionMatcher) {
+    configuredExceptionMatcher = createExceptionMatcher(config.ignoredExceptions || [], (err) =>
+      log('error', 'ignoredExceptions predicate threw an error:', err)
+    )
+  }
+  return configuredExceptionMatcher(error, context)
+}
+
+/**
+ * ignoredExceptions options for the underlying browser/Node SDK.
+ * Strings and RegExps are passed through; when there are classes, predicates
+ * or rules, a beforeNotify hook applies them to errors the SDK captures itself.
+ */
+export function getSdkIgnoreOptions(runtime: ExceptionRuntime): {
+  ignoredExceptions?: (string | RegExp)[]
+  beforeNotify?: Array<(notice: unknown) => boolean>
+} {
+  const entries = getConfig().ignoredExceptions || []
+  const native = entries.filter(isNativeIgnoredException)
+  if (native.length === entries.length) {
+    return { ignoredExceptions: native.length ? native : undefined }
+  }
 
-  const errorString = `${error.name}: ${error.message}`
+  return {
+    ignoredExceptions: native.length ? native : undefined,
+    beforeNotify: [
+      (notice: unknown) => {
+        const error = noticeToError(notice)
+        return !error || !shouldIgnoreException(error, { runtime, context: error.context })
+      },
+    ],
+  }
+}
 
-  return config.ignoredExceptions.some((pattern) => {
-    if (typeof pattern === 'string') {
-      return error.name === pattern || error.message.includes(pattern)
-    }
-    return pattern.test(errorString)
-  })
+/**
+ * Recover the error from a notice built by the underlying SDK
+ */
+function noticeToError(
+  notice: unknown
+): (Error & { context?: Record<string, unknown> }) | null {
+  if (typeof notice !== 'object' || notice === null) return null
+  const { error, errorClass, message, context } = notice as Record<string, unknown>
+  if (error instanceof Error) return error
+  if (typeof errorClass !== 'string') return null
+
+  const rebuilt: Error & { context?: Record<string, unknown> } = new Error(
+    typeof message === 'string' ? message : ''
+  )
+  rebuilt.name = errorClass
+  if (typeof context === 'object' && context !== null) {
+    rebuilt.context = context as Record<string, unknown>
+  }
+  return rebuilt
 }
 
 /**
  * Get the effective filter keys (default + custom)
  */
-export function getFilterKeys(): string[] {
+export function getFilterKeys(): (string | RegExp)[] {
   const config = getConfig()
   const customKeys = config.filterKeys || []
 
@@ -322,22 +784,24 @@ export function getFilterKeys(): string[] {
 
 /**
  * Apply all beforeSend callbacks to an event.
- * Returns null if any callback returns null (event should be dropped).
+ * Callbacks run in order and may be async. Resolves to null if any callback
+ * returns null (event should be dropped). The resolved event is what gets sent.
  */
-export function applyBeforeSend(event: CheckendEvent): CheckendEvent | null {
+export async function applyBeforeSend(event: CheckendEvent): Promise<CheckendEvent | null> {
   const config = getConfig()
   if (!config.beforeSend) return event
 
   const callbacks = Array.isArray(config.beforeSend)
     ? config.beforeSend
     : [config.beforeSend]
+  const timeout = config.beforeSendTimeout ?? 2000
 
   let result: CheckendEvent | null = event
 
   for (const callback of callbacks) {
     if (result === null) break
     try {
-      result = callback(result)
+      result = await withTimeout(callback(result), timeout)
     } catch (err) {
       log('error', 'beforeSend callback threw an error:', err)
       // Continue with unmodified event
@@ -347,6 +811,28 @@ export function applyBeforeSend(event: CheckendEvent): CheckendEvent | null {
   return result
 }
 
+/**
+ * Resolve a value or promise, rejecting if it takes longer than `ms`.
+ */
+async function withTimeout<T>(value: T | Promise<T>, ms: number): Promise<T> {
+  if (!isPromiseLike(value)) return value
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms)
+  })
+
+  try {
+    return await Promise.race([value, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as { then?: unknown } | null)?.then === 'function'
+}
+
 /**
  * Log a message using the configured logger.
  */
@@ -376,43 +862,71 @@ function createDefaultLogger(debug: boolean): CheckendLogger {
 }
 
 /**
- * Sanitize data by filtering sensitive keys.
+ * Scrub PII from a free-form string such as an error message.
+ * Returns the string unchanged when `scrubValues` is disabled.
  */
-export function sanitize<T extends Record<string, unknown>>(
-  data: T,
-  maxDepth: number = 10
-): T {
-  const filterKeys = getFilterKeys()
-  const filterPattern = new RegExp(filterKeys.join('|'), 'i')
-
-  function sanitizeValue(value: unknown, depth: number): unknown {
-    if (depth > maxDepth) return '[MAX_DEPTH]'
-
-    if (value === null || value === undefined) return value
-
-    if (typeof value === 'string') {
-      // Truncate very long strings
-      return value.length > 10000 ? value.slice(0, 10000) + '...[TRUNCATED]' : value
-    }
+export function scrubText(text: string): string {
+  if (!configuredScrubber) return text
+  return configuredScrubber(text) ?? ''
+}
 
-    if (Array.isArray(value)) {
-      return value.map((item) => sanitizeValue(item, depth + 1))
-    }
+/**
+ * Scrub PII from an error's message and stack, returning a copy if anything changed.
+ */
+export function scrubErrorText<T extends Error>(error: T): T {
+  if (!configuredScrubber) return error
+  return scrubError(error, configuredScrubber)
+}
 
-    if (typeof value === 'object') {
-      const result: Record<string, unknown> = {}
-      for (const [key, val] of Object.entries(value)) {
-        if (filterPattern.test(key)) {
-          result[key] = '[FILTERED]'
-        } else {
-          result[key] = sanitizeValue(val, depth + 1)
-        }
-      }
-      return result
+/**
+ * Get the compiled matcher for the effective filter keys.
+ */
+export function getKeyFilter(): KeyFilter {
+  const config = getConfig()
+  if (!configuredKeyFilter) {
+    const filters = [createKeyFilter(config.filterKeys || [], config.filterKeyMatching)]
+    if (config.useDefaultFilterKeys !== false) {
+      const isWordMatched = (key: string) => WORD_MATCHED_DEFAULT_KEYS.has(key)
+      filters.push(
+        createKeyFilter(DEFAULT_FILTER_KEYS.filter((key) => !isWordMatched(key)), 'substring'),
+        createKeyFilter(DEFAULT_FILTER_KEYS.filter(isWordMatched), 'word')
+      )
     }
-
-    return value
+    configuredKeyFilter = (key, path) => filters.some((matches) => matches(key, path))
   }
+  return configuredKeyFilter
+}
+
+/**
+ * Sanitize data by filtering sensitive keys and, when `scrubValues` is
+ * enabled, PII detected in string values. Uses the serializer, so cycles,
+ * exotic types and oversized values are handled too.
+ *
+ * `path` is where the data sits in the notice (e.g. ['request', 'headers'])
+ * so dotted filter keys can match it.
+ */
+export function sanitize<T extends Record<string, unknown>>(
+  data: T,
+  maxDepth: number = 10,
+  path: string[] = []
+): T {
+  return serialize(data, {
+    maxDepth,
+    path,
+    filterKey: getKeyFilter(),
+    allowKey: configuredAllowFilter ?? undefined,
+    transformString: configuredScrubber ?? undefined,
+  }) as T
+}
 
-  return sanitizeValue(data, 0) as T
+/**
+ * Restrict data to the `allowKeys` allowlist without key filtering or value
+ * scrubbing, for fields the app sets deliberately such as the user.
+ * Data is only serialized when no allowlist is configured.
+ */
+export function restrictToAllowKeys<T>(data: T, path: string[] = []): T {
+  return serialize(data, {
+    path,
+    allowKey: configuredAllowFilter ?? undefined,
+  }) as T
 }
@@ -0,0 +1,93 @@
+/**
+ * Next.js control-flow errors for @checkend/nextjs
+ *
+ * `redirect()`, `notFound()`, `forbidden()`, `unauthorized()` and dynamic
+ * rendering bailouts are implemented by throwing. They aren't failures and
+ * must be rethrown for Next.js to handle, never reported. They are recognized
+ * by the digest/code Next.js puts on them, covering Next.js 14 and 15.
+ */
+
+export type ControlFlowKind =
+  | 'redirect'
+  | 'not-found'
+  | 'forbidden'
+  | 'unauthorized'
+  | 'http-access-fallback'
+  | 'dynamic-usage'
+  | 'static-generation-bailout'
+  | 'bailout-to-client-rendering'
+  | 'postpone'
+  | 'prerender-interrupted'
+
+// Next.js 15 reports notFound(), forbidden() and unauthorized() as
+// 'NEXT_HTTP_ERROR_FALLBACK;<status>'
+const HTTP_FALLBACK_KINDS: Record<string, ControlFlowKind> = {
+  '404': 'not-found',
+  '403': 'forbidden',
+  '401': 'unauthorized',
+}
+
+const DIGEST_KINDS: Record<string, ControlFlowKind> = {
+  // Next.js 14 notFound()
+  NEXT_NOT_FOUND: 'not-found',
+  DYNAMIC_SERVER_USAGE: 'dynamic-usage',
+  BAILOUT_TO_CLIENT_SIDE_RENDERING: 'bailout-to-client-rendering',
+  NEXT_PRERENDER_INTERRUPTED: 'prerender-interrupted',
+  HANGING_PROMISE_REJECTION: 'prerender-interrupted',
+}
+
+const REACT_POSTPONE_TYPE = Symbol.for('react.postpone')
+
+/**
+ * Identify a Next.js control-flow error, or return null for anything else.
+ * Only the error itself is classified, as Next.js does: an error whose
+ * cause is a redirect() is rendered as a failure.
+ */
+export function getControlFlowKind(error: unknown): ControlFlowKind | null {
+  if (typeof error !== 'object' || error === null) return null
+  return classify(error as Record<string, unknown>)
+}
+
+/**
+ * Whether an error is a Next.js control-flow error that must be rethrown
+ * without being reported
+ */
+export function isControlFlowError(error: unknown): boolean {
+  return getControlFlowKind(error) !== null
+}
+
+function classify(error: Record<string, unknown>): ControlFlowKind | null {
+  if (error.$$typeof === REACT_POSTPONE_TYPE) return 'postpone'
+
+  if (error.code === 'NEXT_STATIC_GEN_BAILOUT') return 'static-generation-bailout'
+
+  // Next.js 14 and 15 also use the digest as the message, which helps
+  // when the digest was lost along the way
+  for (const marker of [error.digest, error.message]) {
+    if (typeof marker !== 'string') continue
+
+    const kind = classifyMarker(marker)
+    if (kind) return kind
+  }
+
+  if (
+    typeof error.message === 'string' &&
+    error.message.includes('needs to bail out of prerendering at this point because it used')
+  ) {
+    return 'postpone'
+  }
+
+  return null
+}
+
+function classifyMarker(marker: string): ControlFlowKind | null {
+  // 'NEXT_REDIRECT;<type>;<url>;<status>' with a trailing ';' since Next.js 15
+  if (marker === 'NEXT_REDIRECT' || marker.startsWith('NEXT_REDIRECT;')) return 'redirect'
+
+  if (marker.startsWith('NEXT_HTTP_ERROR_FALLBACK;')) {
+    const status = marker.split(';')[1]
+    return HTTP_FALLBACK_KINDS[status] || 'http-access-fallback'
+  }
+
+  return Object.prototype.hasOwnProperty.call(DIGEST_KINDS, marker) ? DIGEST_KINDS[marker] : null
+}
@@ -0,0 +1,152 @@
+/**
+ * Deduplication for @checkend/nextjs
+ *
+ * Suppresses identical errors (same class, message and top stack frames)
+ * seen within `dedupeWindow`. The first occurrence is reported immediately;
+ * when the window closes, a single follow-up notice carries the number of
+ * duplicates that were suppressed.
+ */
+
+import { getConfig, log, type CheckendNextConfig } from './config'
+import { parseStackTrace } from './stack-trace'
+import { isThrownPrimitive } from './throwable'
+
+/**
+ * Number of stack frames used to tell errors apart
+ */
+const TOP_FRAMES = 5
+
+/**
+ * Upper bound on tracked errors, so a storm of distinct errors can't grow memory
+ */
+const MAX_TRACKED = 1000
+
+interface DedupeEntry {
+  duplicates: number
+  timer: ReturnType<typeof setTimeout>
+  report: (duplicates: number) => void
+}
+
+// Keyed by config so that init()/reset() start with a clean slate
+const trackedByConfig = new WeakMap<CheckendNextConfig, Map<string, DedupeEntry>>()
+
+/**
+ * Compute the key identifying duplicates of an error.
+ * In-app frames are preferred, so errors raised from the same place in our
+ * code are grouped even when they passed through different library code.
+ */
+export function dedupeKey(error: Error): string {
+  // Caught twice, e.g. by a wrapper and by onRequestError, a thrown string
+  // gets two stacks; only its value identifies it
+  if (isThrownPrimitive(error)) return [error.name, error.message].join('\n')
+
+  const parsed = parseStackTrace(error.stack)
+  const inApp = parsed.filter((frame) => frame.inApp)
+
+  let frames = (inApp.length > 0 ? inApp : parsed)
+    .slice(0, TOP_FRAMES)
+    .map((frame) => `${frame.file}:${frame.line ?? ''}:${frame.column ?? ''}`)
+
+  // Stacks in an unknown format are compared as they are
+  if (frames.length === 0) {
+    frames = (error.stack || '')
+      .split('\n')
+      .slice(1)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .slice(0, TOP_FRAMES)
+  }
+
+  return [error.name, error.message, ...frames].join('\n')
+}
+
+/**
+ * Check whether an error duplicates one reported within the current window.
+ *
+ * Returns true when the error should be suppressed. For the first occurrence,
+ * `report` is kept and called with the number of suppressed duplicates when
+ * the window closes (only if there were any).
+ */
+export function isDuplicate(
+  error: Error,
+  report: (duplicates: number) => void
+): boolean {
+  const config = getConfig()
+  const windowMs = config.dedupeWindow ?? 0
+  if (windowMs <= 0) return false
+
+  const tracked = getTracked(config)
+  const key = dedupeKey(error)
+  const entry = tracked.get(key)
+
+  if (entry) {
+    entry.duplicates++
+    return true
+  }
+
+  if (tracked.size >= MAX_TRACKED) return false
+
+  const timer = setTimeout(() => closeWindow(tracked, key), windowMs)
+  // Don't keep the Node.js process alive just to report a count
+  ;(timer as { unref?: () => void }).unref?.()
+
+  tracked.set(key, { duplicates: 0, timer, report })
+  return false
+}
+
+/**
+ * Close every open window now, reporting pending duplicate counts.
+ * Call before flushing so suppressed occurrences aren't lost.
+ */
+export function flushDuplicates(): void {
+  let config: CheckendNextConfig
+  try {
+    config = getConfig()
+  } catch {
+    return
+  }
+
+  const tracked = trackedByConfig.get(config)
+  if (!tracked) return
+
+  for (const [key, entry] of [...tracked]) {
+    clearTimeout(entry.timer)
+    closeWindow(tracked, key)
+  }
+}
+
+function getTracked(config: CheckendNextConfig): Map<string, DedupeEntry> {
+  let tracked = trackedByConfig.get(config)
+  if (!tracked) {
+    tracked = new Map()
+    trackedByConfig.set(config, tracked)
+  }
+  return tracked
+}
+
+function closeWindow(tracked: Map<string, DedupeEntry>, key: string): void {
+  const entry = tracked.get(key)
+  if (!entry) return
+  tracked.delete(key)
+
+  if (entry.duplicates === 0) return
+
+  try {
+    entry.report(entry.duplicates)
+  } catch (err) {
+    log('error', 'Failed to report deduplicated errors:', err)
+  }
+}
+
+/**
+ * Record the number of suppressed duplicates in the notice context.
+ */
+export function withDuplicatesContext(
+  context: Record<string, unknown> | undefined,
+  duplicates: number
+): Record<string, unknown> {
+  return {
+    ...context,
+    dedupe: { duplicates, window: getConfig().dedupeWindow },
+  }
+}
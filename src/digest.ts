@@ -0,0 +1,17 @@
+/**
+ * Error digests for @checkend/nextjs
+ *
+ * In production Next.js replaces the message of server errors with a
+ * `digest` before they reach `error.tsx`, and hands the same digest to
+ * `onRequestError`. Notices record it, so the reference a user sees on an
+ * error page can be searched for in Checkend and leads to the server notice.
+ */
+
+/**
+ * The digest Next.js attached to an error, if any
+ */
+export function getErrorDigest(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const digest = (error as { digest?: unknown }).digest
+  return typeof digest === 'string' && digest !== '' ? digest : undefined
+}
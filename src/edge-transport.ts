@@ -0,0 +1,220 @@
+/**
+ * Edge transport for @checkend/nextjs
+ *
+ * Queues notices and delivers them with fetch only, so it runs in the Edge
+ * runtime. Queued notices are sent in batches of concurrent requests, each
+ * bounded by a timeout. Failed deliveries (network errors, 429 and 5xx) are
+ * retried with exponential backoff, honoring `Retry-After`.
+ */
+
+import { stripUndefined } from './utils'
+
+export interface EdgeTransportOptions {
+  /** Base URL of the Checkend API */
+  endpoint: string
+  apiKey: string
+  /**
+   * Time allowed for each request in milliseconds
+   * @default 30000
+   */
+  timeout?: number
+  /**
+   * Maximum number of queued notices; new notices are dropped when full
+   * @default 1000
+   */
+  maxQueueSize?: number
+  /**
+   * Maximum number of notices sent at once
+   * @default 10
+   */
+  batchSize?: number
+  /**
+   * Number of retries after the first attempt
+   * @default 3
+   */
+  maxRetries?: number
+  /**
+   * Delay before the first retry in milliseconds, doubled on every retry
+   * @default 1000
+   */
+  retryDelay?: number
+  /**
+   * Upper bound on any retry delay, including `Retry-After`
+   * @default 30000
+   */
+  maxRetryDelay?: number
+  /** Called with diagnostics when debug logging is enabled */
+  log?: (message: string, ...args: unknown[]) => void
+}
+
+export interface EdgeTransport {
+  /**
+   * Queue a notice for delivery. Returns false when the queue is full.
+   */
+  enqueue(notice: unknown): boolean
+  /**
+   * Deliver a notice right away and resolve to the response body,
+   * or null when it couldn't be delivered
+   */
+  send(notice: unknown): Promise<Record<string, unknown> | null>
+  /**
+   * Resolve once every queued notice has been delivered or given up on.
+   * Hand this to `NextFetchEvent.waitUntil()` to keep the isolate alive
+   * without delaying the response.
+   */
+  flush(): Promise<void>
+  /** Number of notices waiting to be sent */
+  readonly size: number
+}
+
+const DEFAULT_TRANSPORT_OPTIONS = {
+  timeout: 30000,
+  maxQueueSize: 1000,
+  batchSize: 10,
+  maxRetries: 3,
+  retryDelay: 1000,
+  maxRetryDelay: 30000,
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+type Attempt =
+  | { delivered: true; body: Record<string, unknown> }
+  | { delivered: false; retry: boolean; retryAfter?: number }
+
+/**
+ * Create a transport delivering notices to `${endpoint}/ingest/v1/errors`.
+ */
+export function createEdgeTransport(options: EdgeTransportOptions): EdgeTransport {
+  const settings = {
+    ...DEFAULT_TRANSPORT_OPTIONS,
+    ...stripUndefined(options),
+    endpoint: options.endpoint,
+    apiKey: options.apiKey,
+  }
+  const log = options.log || (() => {})
+  const queue: unknown[] = []
+  let draining: Promise<void> | null = null
+  // Set by a 429 so every pending delivery backs off, not just the one rejected
+  let pausedUntil = 0
+
+  function enqueue(notice: unknown): boolean {
+    if (queue.length >= settings.maxQueueSize) {
+      log('Edge: queue full, dropping notice')
+      return false
+    }
+    queue.push(notice)
+    if (!draining) draining = drain()
+    return true
+  }
+
+  async function drain(): Promise<void> {
+    try {
+      // Let notices queued in the same tick join the first batch
+      await Promise.resolve()
+      while (queue.length > 0) {
+        const batch = queue.splice(0, settings.batchSize)
+        await Promise.all(batch.map((notice) => send(notice)))
+      }
+    } finally {
+      draining = null
+    }
+  }
+
+  async function send(notice: unknown): Promise<Record<string, unknown> | null> {
+    const body = JSON.stringify(notice)
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = pausedUntil - Date.now()
+      if (wait > 0) await sleep(wait)
+
+      const result = await attemptDelivery(body)
+      if (result.delivered) return result.body
+
+      if (!result.retry || attempt >= settings.maxRetries) {
+        log('Edge: giving up on notice after', attempt + 1, 'attempt(s)')
+        return null
+      }
+
+      const backoff = settings.retryDelay * 2 ** attempt
+      const delay = Math.min(result.retryAfter ?? backoff, settings.maxRetryDelay)
+      if (result.retryAfter !== undefined) {
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay)
+      }
+      await sleep(delay)
+    }
+  }
+
+  async function attemptDelivery(body: string): Promise<Attempt> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), settings.timeout)
+
+    try {
+      const response = await fetch(`${settings.endpoint}/ingest/v1/errors`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Checkend-Ingestion-Key': settings.apiKey,
+        },
+        body,
+        signal: controller.signal,
+      })
+
+      log('Edge: sent notification, status:', response.status)
+
+      if (response.ok) {
+        return { delivered: true, body: await readBody(response) }
+      }
+
+      if (response.status === 429 || response.status === 503) {
+        return { delivered: false, retry: true, retryAfter: parseRetryAfter(response) }
+      }
+
+      return { delivered: false, retry: response.status >= 500 }
+    } catch (e) {
+      log('Edge: failed to send notification:', e)
+      return { delivered: false, retry: true }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  return {
+    enqueue,
+    send,
+    flush: () => draining || Promise.resolve(),
+    get size() {
+      return queue.length
+    },
+  }
+}
+
+/**
+ * Read the Retry-After header (seconds or an HTTP date) in milliseconds
+ */
+function parseRetryAfter(response: Response): number | undefined {
+  const value = response.headers?.get('retry-after')
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  if (!isNaN(date)) return Math.max(0, date - Date.now())
+
+  return undefined
+}
+
+async function readBody(response: Response): Promise<Record<string, unknown>> {
+  try {
+    const data = await response.json()
+    return typeof data === 'object' && data !== null ? data : {}
+  } catch {
+    return {}
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
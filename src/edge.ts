@@ -4,30 +4,100 @@
  * For use in Next.js middleware and edge functions
  */
 
-import type { CheckendUser, CheckendEvent } from './config'
-import { getConfig, isInitialized, shouldIgnoreException, applyBeforeSend } from './config'
+import type { CheckendUser, CheckendEvent, CheckendNextConfig } from './config'
+import { getConfig, isInitialized, log } from './config'
+import {
+  processError,
+  prepareNotice,
+  flushPipeline,
+  type PreparedNotice,
+  type RequestLike,
+} from './pipeline'
+import { parseStackFrame, isInAppFile } from './stack-trace'
+import type { ErrorDetails } from './error-chain'
+import { createEdgeTransport, type EdgeTransport } from './edge-transport'
+import { runWithBreadcrumbs, type Breadcrumb } from './breadcrumbs'
+import { instrumentFetch } from './fetch-instrumentation'
+import { flushWithTimeout } from './shutdown'
+
+export { addBreadcrumb } from './breadcrumbs'
 
 // Re-export types
 export type { CheckendUser, CheckendEvent }
 
+/**
+ * Options accepted by notify() and notifySync()
+ */
+export interface NotifyOptions {
+  context?: Record<string, unknown>
+  /** Request the error happened in; its URL, method and filtered headers are sent */
+  request?: RequestLike
+  user?: CheckendUser
+  tags?: string[]
+  fingerprint?: string
+  /** Route the error happened on, defaults to the request pathname */
+  route?: string
+  /**
+   * Keeps the isolate alive until the notice is sent, without waiting for it,
+   * e.g. `(promise) => event.waitUntil(promise)` with a NextFetchEvent
+   */
+  waitUntil?: (promise: Promise<unknown>) => void
+  /**
+   * The error is rethrown to Next.js: the notice waits for onRequestError
+   * to report it and is sent once, with the request and digest. Use with
+   * `waitUntil`, or notify() waits for onRequestError before resolving.
+   */
+  rethrown?: boolean
+}
+
+interface BacktraceFrame {
+  file: string
+  method: string
+  number: number
+  column?: number
+  in_app: boolean
+}
+
+/**
+ * An error behind the reported one, see ErrorDetails
+ */
+interface EdgeErrorDetails {
+  error_class: string
+  message: string
+  backtrace: BacktraceFrame[]
+  cause?: EdgeErrorDetails
+  errors?: EdgeErrorDetails[]
+}
+
 interface EdgeNotice {
   error_class: string
   message: string
-  backtrace: Array<{
-    file: string
-    method: string
-    number: number
-  }>
+  backtrace: BacktraceFrame[]
+  cause?: EdgeErrorDetails
+  errors?: EdgeErrorDetails[]
   context?: Record<string, unknown>
   request?: {
     url: string
     method: string
     headers: Record<string, string>
     user_agent?: string
+    client_ip?: string
+    params?: Record<string, string | string[]>
   }
   user?: CheckendUser
   tags?: string[]
   fingerprint?: string
+  digest?: string
+  breadcrumbs?: Breadcrumb[]
+  app?: {
+    environment?: string
+    revision?: string
+    app_name?: string
+    next_version?: string
+    runtime: string
+    hostname?: string
+    region?: string
+  }
   notifier: {
     name: string
     version: string
@@ -36,79 +106,128 @@ interface EdgeNotice {
 }
 
 /**
- * Parse a stack trace string into structured backtrace
+ * Convert a notice that went through the pipeline into the ingest format
  */
-function parseStackTrace(
-  stack: string | undefined
-): Array<{ file: string; method: string; number: number }> {
-  if (!stack) return []
+function toEdgeNotice(notice: PreparedNotice): EdgeNotice {
+  const { event } = notice
+  return {
+    error_class: event.errorClass,
+    message: event.message,
+    backtrace: event.backtrace.map(parseBacktraceLine),
+    cause: event.cause && toEdgeErrorDetails(event.cause),
+    errors: event.errors?.map(toEdgeErrorDetails),
+    context: event.context,
+    request: event.request as EdgeNotice['request'],
+    user: event.user,
+    tags: event.tags,
+    fingerprint: event.fingerprint,
+    digest: event.digest,
+    breadcrumbs: event.breadcrumbs,
+    app: event.app && {
+      environment: event.app.environment,
+      revision: event.app.revision,
+      app_name: event.app.appName,
+      next_version: event.app.nextVersion,
+      runtime: event.app.runtime,
+      hostname: event.app.hostname,
+      region: event.app.region,
+    },
+    notifier: {
+      name: '@checkend/nextjs',
+      version: '0.1.0',
+      url: 'https://github.com/Checkend/checkend-nextjs',
+    },
+  }
+}
 
-  const lines = stack.split('\n').slice(1) // Skip the error message line
-  const backtrace: Array<{ file: string; method: string; number: number }> = []
+function toEdgeErrorDetails(details: ErrorDetails): EdgeErrorDetails {
+  return {
+    error_class: details.errorClass,
+    message: details.message,
+    backtrace: details.backtrace.map(parseBacktraceLine),
+    cause: details.cause && toEdgeErrorDetails(details.cause),
+    errors: details.errors?.map(toEdgeErrorDetails),
+  }
+}
 
-  for (const line of lines) {
-    // Match patterns like "at functionName (file:line:col)" or "at file:line:col"
-    const match = line.match(/at\s+(?:(.+?)\s+\()?(.+?):(\d+)(?::\d+)?\)?/)
-    if (match) {
-      backtrace.push({
-        method: match[1] || '<anonymous>',
-        file: match[2] || '<unknown>',
-        number: parseInt(match[3], 10) || 0,
-      })
+/**
+ * Parse a backtrace line: a V8, SpiderMonkey or JavaScriptCore stack frame,
+ * or "file:line:in `method`" as beforeSend callbacks may return
+ */
+function parseBacktraceLine(line: string): BacktraceFrame {
+  const frame = parseStackFrame(line)
+  if (frame) {
+    return {
+      file: frame.file || '<unknown>',
+      method: frame.method,
+      number: frame.line ?? 0,
+      column: frame.column,
+      in_app: frame.inApp,
     }
   }
 
-  return backtrace
+  const match = line.match(/^(.*):(\d+):in `(.*)`$/)
+  if (!match) return { file: line, method: '<unknown>', number: 0, in_app: false }
+  return {
+    file: match[1],
+    method: match[3],
+    number: parseInt(match[2], 10),
+    in_app: isInAppFile(match[1]),
+  }
+}
+
+// Keyed by config so that init()/reset() start with a fresh queue
+const transports = new WeakMap<CheckendNextConfig, EdgeTransport>()
+
+function getTransport(config: CheckendNextConfig): EdgeTransport {
+  let transport = transports.get(config)
+  if (!transport) {
+    transport = createEdgeTransport({
+      endpoint: config.endpoint || 'https://app.checkend.io',
+      apiKey: config.apiKey,
+      timeout: config.timeout,
+      maxQueueSize: config.maxQueueSize,
+      log: (message, ...args) => log('debug', message, ...args),
+    })
+    transports.set(config, transport)
+  }
+  return transport
 }
 
 /**
- * Filter sensitive data from headers
+ * Set up the Edge SDK: instruments fetch according to `instrumentFetch`.
+ * register() calls this in the Edge runtime.
  */
-function filterHeaders(
-  headers: Headers,
-  filterKeys: string[] = []
-): Record<string, string> {
-  const sensitiveKeys = [
-    'authorization',
-    'cookie',
-    'x-api-key',
-    'x-auth-token',
-    ...filterKeys.map((k) => k.toLowerCase()),
-  ]
+export function initEdge(): void {
+  if (!isInitialized()) {
+    console.warn('[Checkend] Edge SDK: not initialized')
+    return
+  }
 
-  const filtered: Record<string, string> = {}
+  const config = getConfig()
+  if (!config.enableEdge || !config.instrumentFetch) return
 
-  headers.forEach((value, key) => {
-    if (sensitiveKeys.includes(key.toLowerCase())) {
-      filtered[key] = '[FILTERED]'
-    } else {
-      filtered[key] = value
-    }
+  instrumentFetch({
+    ...(typeof config.instrumentFetch === 'object' ? config.instrumentFetch : {}),
+    notify: (error, options) => void notify(error, options),
   })
-
-  return filtered
 }
 
 /**
- * Report an error to Checkend from Edge runtime
+ * Report an error to Checkend from Edge runtime.
+ * Identical errors within `dedupeWindow` are reported once, followed by a
+ * single notice carrying the duplicate count.
+ *
+ * Resolves once the notice is sent, or after `timeout` when delivery takes
+ * longer: retries carry on, and flush() waits for them. When `waitUntil` is
+ * given, delivery is handed to it and notify() resolves right away.
  */
-export async function notify(
-  error: Error,
-  options?: {
-    context?: Record<string, unknown>
-    request?: Request
-    user?: CheckendUser
-    tags?: string[]
-    fingerprint?: string
-  }
-): Promise<void> {
+export async function notify(error: Error, options?: NotifyOptions): Promise<void> {
   if (!isInitialized()) {
     console.warn('[Checkend] Edge SDK: not initialized')
     return
   }
 
-  if (shouldIgnoreException(error)) return
-
   const config = getConfig()
   if (!config.enableEdge) {
     if (config.debug) {
@@ -117,147 +236,55 @@ export async function notify(
     return
   }
 
-  const endpoint = config.endpoint || 'https://app.checkend.io'
+  const transport = getTransport(config)
+  const delivery = processError(error, { ...options, runtime: 'edge' }, (notice) => {
+    transport.enqueue(toEdgeNotice(notice))
+  }).then(() => transport.flush())
 
-  const notice: EdgeNotice = {
-    error_class: error.name,
-    message: error.message,
-    backtrace: parseStackTrace(error.stack),
-    context: options?.context,
-    user: options?.user,
-    tags: options?.tags,
-    fingerprint: options?.fingerprint,
-    notifier: {
-      name: '@checkend/nextjs',
-      version: '0.1.0',
-      url: 'https://github.com/Checkend/checkend-nextjs',
-    },
-  }
-
-  if (options?.request) {
-    const url = new URL(options.request.url)
-    notice.request = {
-      url: `${url.pathname}${url.search}`,
-      method: options.request.method,
-      headers: filterHeaders(options.request.headers, config.filterKeys),
-      user_agent: options.request.headers.get('user-agent') || undefined,
-    }
-  }
-
-  // Apply beforeSend callbacks
-  if (config.beforeSend) {
-    const event: CheckendEvent = {
-      errorClass: notice.error_class,
-      message: notice.message,
-      backtrace: notice.backtrace.map(
-        (b) => `${b.file}:${b.number}:in \`${b.method}\``
-      ),
-      context: notice.context,
-      user: notice.user,
-      tags: notice.tags,
-      fingerprint: notice.fingerprint,
-    }
-
-    const result = applyBeforeSend(event)
-    if (result === null) {
-      if (config.debug) {
-        console.log('[Checkend] Edge: beforeSend returned null, skipping')
-      }
-      return
-    }
+  if (options?.waitUntil) {
+    options.waitUntil(delivery)
+    return
   }
 
-  try {
-    const response = await fetch(`${endpoint}/ingest/v1/errors`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Checkend-Ingestion-Key': config.apiKey,
-      },
-      body: JSON.stringify(notice),
-    })
-
-    if (config.debug) {
-      console.log('[Checkend] Edge: sent notification, status:', response.status)
-    }
-  } catch (e) {
-    // Silently fail - don't crash the edge function
-    if (config.debug) {
-      console.error('[Checkend] Edge: failed to send notification:', e)
-    }
-  }
+  // Retries with backoff can take minutes; the caller waits for one attempt at most
+  const timeout = config.timeout ?? 30000
+  const result = await flushWithTimeout(() => delivery, () => transport.size, timeout)
+  if (!result.completed) log('debug', 'Edge: notice still being delivered, flush() waits for it')
 }
 
 /**
- * Report an error and wait for confirmation
+ * Report an error and wait for confirmation.
+ * Always sends, without deduplication.
  */
-export async function notifySync(
-  error: Error,
-  options?: {
-    context?: Record<string, unknown>
-    request?: Request
-    user?: CheckendUser
-    tags?: string[]
-    fingerprint?: string
-  }
-): Promise<{ id: string } | null> {
+export async function notifySync(error: Error, options?: NotifyOptions): Promise<{ id: string } | null> {
   if (!isInitialized()) {
     console.warn('[Checkend] Edge SDK: not initialized')
     return null
   }
 
-  if (shouldIgnoreException(error)) return null
-
   const config = getConfig()
   if (!config.enableEdge) return null
 
-  const endpoint = config.endpoint || 'https://app.checkend.io'
+  const notice = await prepareNotice(error, { ...options, runtime: 'edge' })
+  if (!notice) return null
 
-  const notice: EdgeNotice = {
-    error_class: error.name,
-    message: error.message,
-    backtrace: parseStackTrace(error.stack),
-    context: options?.context,
-    user: options?.user,
-    tags: options?.tags,
-    fingerprint: options?.fingerprint,
-    notifier: {
-      name: '@checkend/nextjs',
-      version: '0.1.0',
-      url: 'https://github.com/Checkend/checkend-nextjs',
-    },
-  }
-
-  if (options?.request) {
-    const url = new URL(options.request.url)
-    notice.request = {
-      url: `${url.pathname}${url.search}`,
-      method: options.request.method,
-      headers: filterHeaders(options.request.headers, config.filterKeys),
-      user_agent: options.request.headers.get('user-agent') || undefined,
-    }
-  }
-
-  try {
-    const response = await fetch(`${endpoint}/ingest/v1/errors`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Checkend-Ingestion-Key': config.apiKey,
-      },
-      body: JSON.stringify(notice),
-    })
+  const data = await getTransport(config).send(toEdgeNotice(notice))
+  return data ? { id: String(data.id || 'unknown') } : null
+}
 
-    if (response.ok) {
-      const data = await response.json()
-      return { id: data.id || 'unknown' }
-    }
+/**
+ * Run a function with its own breadcrumbs, e.g. one middleware invocation
+ */
+export function runWithContext<T>(fn: () => T): T {
+  return runWithBreadcrumbs(fn)
+}
 
-    return null
-  } catch (e) {
-    if (config.debug) {
-      console.error('[Checkend] Edge: failed to send notification:', e)
-    }
-    return null
-  }
+/**
+ * Wait for queued notices to be sent.
+ * Call before the isolate may be frozen if notify() was given `waitUntil`.
+ */
+export async function flush(): Promise<void> {
+  await flushPipeline()
+  if (!isInitialized()) return
+  await getTransport(getConfig()).flush()
 }
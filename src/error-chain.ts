@@ -0,0 +1,166 @@
+/**
+ * Error cause chains for @checkend/nextjs
+ *
+ * Describes the errors behind an error: its `cause` chain
+ * (`new Error('x', { cause })`) and the errors collected by an
+ * `AggregateError` (`Promise.any`, `Promise.allSettled` wrappers), each with
+ * its own class, message and backtrace. Nesting is bounded by a depth limit
+ * and cycles are cut off.
+ */
+
+import { parseStackFrame, parseStackTrace } from './stack-trace'
+
+/**
+ * An error behind the reported one
+ */
+export interface ErrorDetails {
+  errorClass: string
+  message: string
+  backtrace: string[]
+  /** The error this one was caused by */
+  cause?: ErrorDetails
+  /** Errors collected by an AggregateError */
+  errors?: ErrorDetails[]
+}
+
+type RelatedErrors = Pick<ErrorDetails, 'cause' | 'errors'>
+
+export interface ErrorChainOptions {
+  /**
+   * Maximum nesting of causes and aggregated errors
+   * @default 5
+   */
+  maxDepth?: number
+  /** Applied to every message and backtrace line, e.g. to scrub PII */
+  scrub?: (text: string) => string
+}
+
+/**
+ * Upper bound on the aggregated errors described per AggregateError
+ */
+export const MAX_AGGREGATED_ERRORS = 10
+
+const DEFAULT_MAX_DEPTH = 5
+
+/**
+ * Describe the cause and aggregated errors of an error.
+ * The error itself isn't included.
+ */
+export function describeErrorChain(
+  error: Error,
+  options: ErrorChainOptions = {}
+): RelatedErrors {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH
+  const scrub = options.scrub || ((text: string) => text)
+  const seen = new Set<unknown>([error])
+
+  return describeRelated(error, 1)
+
+  function describeRelated(value: object, depth: number): RelatedErrors {
+    if (depth > maxDepth) return {}
+    const related: RelatedErrors = {}
+
+    const cause = (value as { cause?: unknown }).cause
+    if (cause !== undefined && cause !== null && !seen.has(cause)) {
+      related.cause = describe(cause, depth)
+    }
+
+    const errors = (value as { errors?: unknown }).errors
+    if (isAggregate(value) && Array.isArray(errors)) {
+      const described = errors
+        .filter((item) => item !== undefined && item !== null && !seen.has(item))
+        .slice(0, MAX_AGGREGATED_ERRORS)
+        .map((item) => describe(item, depth))
+      if (described.length > 0) related.errors = described
+    }
+
+    return related
+  }
+
+  function describe(value: unknown, depth: number): ErrorDetails {
+    if (typeof value === 'object' && value !== null) seen.add(value)
+
+    if (!isErrorLike(value)) {
+      return { errorClass: typeName(value), message: scrub(describeValue(value)), backtrace: [] }
+    }
+
+    return {
+      errorClass: value.name || 'Error',
+      message: scrub(String(value.message ?? '')),
+      backtrace: backtraceLines(value.stack).map(scrub),
+      ...describeRelated(value, depth + 1),
+    }
+  }
+}
+
+/**
+ * The innermost error of the cause chain, or the error itself
+ * when it has no cause. Cycles end the chain.
+ */
+export function getRootCause(error: Error): Error {
+  const seen = new Set<unknown>([error])
+  let root = error
+  let cause = (error as { cause?: unknown }).cause
+
+  while (isErrorLike(cause) && !seen.has(cause)) {
+    seen.add(cause)
+    root = cause
+    cause = (cause as { cause?: unknown }).cause
+  }
+
+  return root
+}
+
+/**
+ * A fingerprint grouping errors by their root cause: its class and the
+ * first in-app frame it was thrown from, or its message when there are
+ * no frames.
+ */
+export function rootCauseFingerprint(error: Error): string {
+  const root = getRootCause(error)
+  const frames = parseStackTrace(root.stack)
+  const frame = frames.find((item) => item.inApp) || frames[0]
+
+  const location = frame ? `${frame.file}:${frame.line ?? ''}:${frame.method}` : root.message
+  return `${root.name || 'Error'}:${location}`
+}
+
+function isErrorLike(value: unknown): value is Error {
+  if (value instanceof Error) return true
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Error).message === 'string' &&
+    typeof (value as Error).stack === 'string'
+  )
+}
+
+function isAggregate(value: object): boolean {
+  return (
+    (typeof AggregateError !== 'undefined' && value instanceof AggregateError) ||
+    (value as Error).name === 'AggregateError'
+  )
+}
+
+function backtraceLines(stack: string | undefined): string[] {
+  // Only lines that parse as frames, so the message lines are left out
+  if (!stack) return []
+  return stack
+    .split('\n')
+    .filter((line) => parseStackFrame(line) !== null)
+    .map((line) => line.trim())
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null'
+  if (typeof value !== 'object') return typeof value
+  return (value as object).constructor?.name || 'Object'
+}
+
+// Objects without a message aren't dumped, as they may hold data that
+// filterKeys would otherwise remove
+function describeValue(value: unknown): string {
+  if (typeof value !== 'object' || value === null) return String(value)
+  const message = (value as { message?: unknown }).message
+  return typeof message === 'string' ? message : ''
+}
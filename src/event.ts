@@ -0,0 +1,131 @@
+/**
+ * Conversions between errors and CheckendEvents for @checkend/nextjs
+ *
+ * The client and server SDKs take an Error plus options, so beforeSend runs
+ * on a CheckendEvent built here and its result is turned back into an Error.
+ */
+
+import type { CheckendEvent, CheckendUser } from './config'
+import type { AppInfo } from './app-info'
+import type { ErrorDetails } from './error-chain'
+import type { Breadcrumb } from './breadcrumbs'
+import { parseStackFrame } from './stack-trace'
+
+/**
+ * The options the underlying SDKs accept alongside an error
+ */
+export interface SdkNotifyOptions {
+  context?: Record<string, unknown>
+  user?: CheckendUser
+  tags?: string[]
+  fingerprint?: string
+}
+
+/**
+ * Build a CheckendEvent from an error and its notify options.
+ */
+export function errorToEvent(
+  error: Error,
+  options: SdkNotifyOptions & {
+    request?: Record<string, unknown>
+    app?: AppInfo
+    cause?: ErrorDetails
+    errors?: ErrorDetails[]
+    digest?: string
+    breadcrumbs?: Breadcrumb[]
+  }
+): CheckendEvent {
+  return {
+    errorClass: error.name,
+    message: error.message,
+    backtrace: stackLines(error),
+    context: options.context,
+    request: options.request,
+    user: options.user,
+    tags: options.tags,
+    fingerprint: options.fingerprint,
+    app: options.app,
+    cause: options.cause,
+    errors: options.errors,
+    digest: options.digest,
+    breadcrumbs: options.breadcrumbs,
+  }
+}
+
+/**
+ * Turn a (possibly modified) event back into an error and notify options.
+ * The original error is reused when its class, message and backtrace are unchanged.
+ */
+export function eventToError(
+  event: CheckendEvent,
+  original: Error
+): { error: Error; options: SdkNotifyOptions } {
+  const options = toSdkNotifyOptions(event)
+
+  const backtrace = stackLines(original)
+  const unchanged =
+    event.errorClass === original.name &&
+    event.message === original.message &&
+    event.backtrace.length === backtrace.length &&
+    event.backtrace.every((line, i) => line === backtrace[i])
+
+  if (unchanged) return { error: original, options }
+
+  const error = Object.create(Object.getPrototypeOf(original)) as Error
+  Object.assign(error, original)
+  for (const [key, value] of [
+    ['name', event.errorClass],
+    ['message', event.message],
+    ['stack', [`${event.errorClass}: ${event.message}`, ...event.backtrace.map((line) => `    ${line}`)].join('\n')],
+  ] as const) {
+    Object.defineProperty(error, key, { value, writable: true, configurable: true })
+  }
+
+  return { error, options }
+}
+
+/**
+ * The options the underlying SDKs accept, taken from an event.
+ * They have no fields for request data, app metadata, related errors, the
+ * digest and breadcrumbs, so these are sent as `context.request`,
+ * `context.app`, `context.cause`, `context.errors`, `context.digest` and
+ * `context.breadcrumbs`.
+ */
+export function toSdkNotifyOptions(event: CheckendEvent): SdkNotifyOptions {
+  const related = {
+    request: event.request,
+    app: event.app,
+    cause: event.cause,
+    errors: event.errors,
+    digest: event.digest,
+    breadcrumbs: event.breadcrumbs,
+  }
+  const extra = Object.entries(related).filter(([, value]) => value !== undefined)
+
+  return {
+    context: extra.length > 0 ? { ...event.context, ...Object.fromEntries(extra) } : event.context,
+    user: event.user,
+    tags: event.tags,
+    fingerprint: event.fingerprint,
+  }
+}
+
+function stackLines(error: Error): string[] {
+  if (!error.stack) return []
+  const lines = error.stack.split('\n')
+
+  // V8 starts the stack with the name and message, which may span several
+  // lines; SpiderMonkey and JavaScriptCore start with the first frame
+  const header = error.message ? `${error.name}: ${error.message}` : error.name
+  let start = 0
+  if (error.stack.startsWith(header)) {
+    start = header.split('\n').length
+  } else if (!parseStackFrame(lines[0])) {
+    start = 1
+  }
+
+  return lines
+    .slice(start)
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
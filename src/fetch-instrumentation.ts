@@ -0,0 +1,231 @@
+/**
+ * Outgoing fetch instrumentation for @checkend/nextjs
+ *
+ * Route handler failures are often caused by the APIs they call. The server
+ * and edge SDKs wrap the global `fetch` to record each outgoing request
+ * (method, URL without credentials or query values, status and duration) as
+ * a breadcrumb, and can report network failures and 5xx responses as
+ * notices tagged with the upstream host. Requests to the Checkend endpoint
+ * itself are left alone.
+ */
+
+import { getConfig, isInitialized } from './config'
+import { addBreadcrumb, type BreadcrumbLevel } from './breadcrumbs'
+import { isControlFlowError } from './control-flow'
+import { toError } from './throwable'
+
+export interface FetchInstrumentationOptions {
+  /**
+   * Record outgoing requests as breadcrumbs
+   * @default true
+   */
+  breadcrumbs?: boolean
+  /**
+   * Report network failures and 5xx responses from upstream services
+   * @default false
+   */
+  captureErrors?: boolean
+  /**
+   * URLs that are neither recorded nor reported: strings match
+   * URLs starting with them, RegExps are tested against the whole URL
+   */
+  ignoredUrls?: (string | RegExp)[]
+}
+
+export interface InstrumentFetchOptions extends FetchInstrumentationOptions {
+  /** Reports an upstream failure, with the runtime's notify() */
+  notify: (error: Error, options: { context: Record<string, unknown>; tags: string[] }) => void
+}
+
+/**
+ * Error reported for a 5xx response from an upstream service
+ */
+export class UpstreamResponseError extends Error {
+  /** HTTP status of the response */
+  readonly status: number
+  readonly method: string
+  /** Requested URL, without credentials, query or fragment */
+  readonly url: string
+
+  constructor(method: string, url: string, status: number, statusText?: string) {
+    super(`${method} ${url} responded with ${status}${statusText ? ` ${statusText}` : ''}`)
+    this.name = 'UpstreamResponseError'
+    this.status = status
+    this.method = method
+    this.url = url
+  }
+}
+
+type Fetch = typeof fetch
+
+interface Instrumentation {
+  original: Fetch
+  instrumented: Fetch
+}
+
+/**
+ * An outgoing request, as recorded
+ */
+interface OutgoingRequest {
+  method: string
+  url: string
+  host?: string
+  query?: Record<string, string>
+}
+
+const DEFAULT_ENDPOINT = 'https://app.checkend.io'
+
+let current: Instrumentation | null = null
+
+/**
+ * Wrap the global fetch. Replaces any previous instrumentation.
+ *
+ * @returns A function restoring the original fetch
+ */
+export function instrumentFetch(options: InstrumentFetchOptions): () => void {
+  uninstrumentFetch()
+  if (typeof globalThis.fetch !== 'function') return () => {}
+
+  const original = globalThis.fetch
+  const instrumentation: Instrumentation = {
+    original,
+    instrumented: async (input, init) => {
+      // Uninstrumented while something else still wraps this function
+      if (current !== instrumentation) return original(input, init)
+
+      const request = describeRequest(input, init)
+      if (isIgnored(request.url, options.ignoredUrls)) return original(input, init)
+
+      const start = Date.now()
+      let response: Response
+      try {
+        response = await original(input, init)
+      } catch (error) {
+        // Next.js bails out of static rendering by throwing from fetch
+        if (isControlFlowError(error)) throw error
+
+        const duration = Date.now() - start
+        if (options.breadcrumbs !== false) {
+          recordRequest(request, 'error', `${request.method} ${request.url} failed`, {
+            duration,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+        // Aborted by the caller, not a failure of the upstream service
+        if (options.captureErrors && !isAbortError(error)) {
+          reportFailure(options, toError(error), request, { duration })
+        }
+        throw error
+      }
+
+      const duration = Date.now() - start
+      const { status } = response
+      if (options.breadcrumbs !== false) {
+        const message = `${request.method} ${request.url} ${status}`
+        recordRequest(request, levelForStatus(status), message, { status, duration })
+      }
+      if (options.captureErrors && status >= 500) {
+        const { method, url } = request
+        const error = new UpstreamResponseError(method, url, status, response.statusText)
+        reportFailure(options, error, request, { status, duration })
+      }
+      return response
+    },
+  }
+
+  // Keep markers other libraries set on fetch, such as Next.js' __nextPatched
+  Object.assign(instrumentation.instrumented, original)
+  globalThis.fetch = instrumentation.instrumented
+  current = instrumentation
+
+  return () => {
+    if (current === instrumentation) uninstrumentFetch()
+  }
+}
+
+/**
+ * Restore the original fetch, if instrumented. When something wrapped the
+ * instrumented fetch since, it stays in place and stops recording.
+ */
+export function uninstrumentFetch(): void {
+  if (!current) return
+  if (globalThis.fetch === current.instrumented) globalThis.fetch = current.original
+  current = null
+}
+
+function describeRequest(input: Parameters<Fetch>[0], init: Parameters<Fetch>[1]): OutgoingRequest {
+  const isRequest = typeof Request !== 'undefined' && input instanceof Request
+  const rawUrl = isRequest ? input.url : String(input)
+  const method = (init?.method ?? (isRequest ? input.method : 'GET')).toUpperCase()
+
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    // Relative URL; nothing to strip but the query and fragment
+    return { method, url: rawUrl.split(/[?#]/)[0] }
+  }
+
+  const query = Object.fromEntries(url.searchParams)
+  return {
+    method,
+    url: `${url.origin}${url.pathname}`,
+    host: url.host,
+    query: Object.keys(query).length > 0 ? query : undefined,
+  }
+}
+
+function isIgnored(url: string, ignoredUrls: (string | RegExp)[] = []): boolean {
+  // Delivering notices must not record or report anything
+  const endpoint = isInitialized() ? getConfig().endpoint || DEFAULT_ENDPOINT : DEFAULT_ENDPOINT
+  if (url.startsWith(endpoint)) return true
+
+  return ignoredUrls.some((pattern) =>
+    typeof pattern === 'string' ? url.startsWith(pattern) : pattern.test(url)
+  )
+}
+
+function recordRequest(
+  request: OutgoingRequest,
+  level: BreadcrumbLevel,
+  message: string,
+  data: Record<string, unknown>
+): void {
+  // Query values are in data, where filterKeys apply to them
+  addBreadcrumb({
+    category: 'fetch',
+    message,
+    level,
+    data: { method: request.method, url: request.url, query: request.query, ...data },
+  })
+}
+
+function reportFailure(
+  options: InstrumentFetchOptions,
+  error: Error,
+  request: OutgoingRequest,
+  details: Record<string, unknown>
+): void {
+  options.notify(error, {
+    context: {
+      upstream: {
+        method: request.method,
+        url: request.url,
+        host: request.host,
+        query: request.query,
+        ...details,
+      },
+    },
+    tags: request.host ? ['upstream', `upstream:${request.host}`] : ['upstream'],
+  })
+}
+
+function levelForStatus(status: number): BreadcrumbLevel {
+  if (status >= 500) return 'error'
+  if (status >= 400) return 'warning'
+  return 'info'
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
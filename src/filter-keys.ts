@@ -0,0 +1,165 @@
+/**
+ * Filter key matching for @checkend/nextjs
+ *
+ * Decides which keys get their values replaced with '[FILTERED]'. Entries can be:
+ * - plain keys ('token'), matched according to the matching mode
+ * - dotted paths ('user.address.street', 'request.headers.cookie'), matched
+ *   against the end of the key's path
+ * - globs ('*_secret', 'request.headers.x-*'), where '*' matches within a segment
+ * - regular expressions, tested against the key
+ */
+
+import { escapeRegExp, statelessRegExp } from './utils'
+
+/**
+ * How plain filter keys are compared with object keys:
+ * - `exact` - case-insensitive equality
+ * - `word` - the filter key's words appear as whole words in the key, so
+ *   'token' matches 'accessToken' and 'csrf_token' but 'auth' doesn't match 'author'
+ * - `substring` - case-insensitive substring, which also catches unrelated keys
+ *   ('sin' matches 'business')
+ */
+export type FilterKeyMatching = 'exact' | 'word' | 'substring'
+
+/**
+ * Returns true when the value at `key` should be filtered.
+ * `path` holds the keys leading to it, ending with `key` itself.
+ */
+export type KeyFilter = (key: string, path: readonly string[]) => boolean
+
+/**
+ * Compile filter key entries into a matcher.
+ */
+export function createKeyFilter(
+  entries: readonly (string | RegExp)[],
+  matching: FilterKeyMatching = 'word'
+): KeyFilter {
+  const matchers = entries.map((entry) => compileEntry(entry, matching))
+  if (matchers.length === 0) return () => false
+
+  return (key, path) => matchers.some((matches) => matches(key, path))
+}
+
+/**
+ * Split a key into lowercase words on camelCase, snake_case, kebab-case and dots.
+ */
+export function splitWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+function compileEntry(entry: string | RegExp, matching: FilterKeyMatching): KeyFilter {
+  if (entry instanceof RegExp) {
+    const pattern = statelessRegExp(entry)
+    return (key) => pattern.test(key)
+  }
+
+  if (entry.includes('.')) {
+    const segments = entry.split('.').map((segment) => compileSegment(segment, 'exact'))
+    return (_key, path) => {
+      if (path.length < segments.length) return false
+      const offset = path.length - segments.length
+      return segments.every((matches, i) => matches(path[offset + i]))
+    }
+  }
+
+  const matches = compileSegment(entry, matching)
+  return (key) => matches(key)
+}
+
+function compileSegment(
+  segment: string,
+  matching: FilterKeyMatching
+): (key: string) => boolean {
+  if (segment.includes('*')) {
+    const source = segment
+      .split('*')
+      .map(escapeRegExp)
+      .join('.*')
+    const pattern = new RegExp(`^${source}$`, 'i')
+    return (key) => pattern.test(key)
+  }
+
+  const lower = segment.toLowerCase()
+
+  if (matching === 'exact') {
+    return (key) => key.toLowerCase() === lower
+  }
+
+  if (matching === 'substring') {
+    return (key) => key.toLowerCase().includes(lower)
+  }
+
+  const words = splitWords(segment)
+  if (words.length === 0) return () => false
+
+  return (key) => {
+    const keyWords = splitWords(key)
+    for (let i = 0; i + words.length <= keyWords.length; i++) {
+      if (words.every((word, j) => keyWords[i + j] === word)) return true
+    }
+    return false
+  }
+}
+
+/**
+ * Decision for a key under an allowlist:
+ * - `allow` - the key and everything below it may be sent
+ * - `descend` - the key isn't allowed itself, but keys below it might be
+ * - `deny` - the value is replaced with '[FILTERED]'
+ */
+export type AllowDecision = 'allow' | 'descend' | 'deny'
+
+/**
+ * Returns the allowlist decision for the value at `key`.
+ * `path` holds the keys from the notice root, ending with `key` itself.
+ */
+export type AllowFilter = (key: string, path: readonly string[]) => AllowDecision
+
+/**
+ * Compile allowlist entries into a matcher. Entries can be:
+ * - dotted paths anchored at the notice root ('context.orderId', 'user.id',
+ *   'request.headers.user-agent'), with '*' globs within a segment
+ * - plain keys ('orderId'), allowed at any depth
+ * - regular expressions, tested against the key at any depth
+ */
+export function createAllowFilter(entries: readonly (string | RegExp)[]): AllowFilter {
+  const floating: ((key: string) => boolean)[] = []
+  const anchored: ((key: string) => boolean)[][] = []
+
+  for (const entry of entries) {
+    if (entry instanceof RegExp) {
+      const pattern = statelessRegExp(entry)
+      floating.push((key) => pattern.test(key))
+    } else if (entry.includes('.')) {
+      anchored.push(entry.split('.').map((segment) => compileSegment(segment, 'exact')))
+    } else {
+      floating.push(compileSegment(entry, 'exact'))
+    }
+  }
+
+  return (key, path) => {
+    if (floating.some((matches) => matches(key))) return 'allow'
+
+    let descend = floating.length > 0
+    for (const segments of anchored) {
+      const depth = Math.min(segments.length, path.length)
+      let matches = true
+      for (let i = 0; i < depth; i++) {
+        if (!segments[i](path[i])) {
+          matches = false
+          break
+        }
+      }
+      if (!matches) continue
+      if (path.length >= segments.length) return 'allow'
+      descend = true
+    }
+
+    return descend ? 'descend' : 'deny'
+  }
+}
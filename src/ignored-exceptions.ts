@@ -0,0 +1,161 @@
+/**
+ * Ignored exception matching for @checkend/nextjs
+ *
+ * Decides which errors are never reported. Entries can be:
+ * - strings, matching the error name or a substring of the message
+ * - regular expressions, tested against `${name}: ${message}`
+ * - error constructors, matched with instanceof
+ * - predicates, called with the error and where it happened
+ * - rules (`{ name, messagePattern, route, runtime }`), where every given
+ *   field has to match
+ */
+
+import { createRouteMatcher } from './route-matcher'
+import { statelessRegExp } from './utils'
+
+/**
+ * Runtime an error was reported from
+ */
+export type ExceptionRuntime = 'client' | 'server' | 'edge'
+
+/**
+ * Where an error is being reported, passed to predicates
+ */
+export interface IgnoreContext {
+  runtime?: ExceptionRuntime
+  /** Route the error happened on, when known */
+  route?: string
+  /** Context passed to notify() */
+  context?: Record<string, unknown>
+}
+
+export type IgnorePredicate = (error: Error, context: IgnoreContext) => boolean
+
+export interface IgnoreRule {
+  /** Error name, matched exactly, or a pattern */
+  name?: string | RegExp
+  /** Substring of the message, or a pattern */
+  messagePattern?: string | RegExp
+  /** Route pattern, using the same syntax as ignoredRoutes */
+  route?: string | RegExp
+  /** Runtime(s) the rule applies to */
+  runtime?: ExceptionRuntime | ExceptionRuntime[]
+}
+
+type ErrorConstructorLike = abstract new (...args: never[]) => Error
+
+export type IgnoredException =
+  | string
+  | RegExp
+  | ErrorConstructorLike
+  | IgnorePredicate
+  | IgnoreRule
+
+/**
+ * Returns true when the error should be ignored
+ */
+export type ExceptionMatcher = (error: Error, context?: IgnoreContext) => boolean
+
+/**
+ * Compile ignoredExceptions entries into a matcher.
+ * A predicate that throws doesn't ignore the error; `onError` is told about it.
+ */
+export function createExceptionMatcher(
+  entries: readonly IgnoredException[],
+  onError?: (error: unknown) => void
+): ExceptionMatcher {
+  const matchers = entries.map((entry) => compileEntry(entry, onError))
+  if (matchers.length === 0) return () => false
+
+  return (error, context = {}) => matchers.some((matches) => matches(error, context))
+}
+
+/**
+ * Whether an entry can be handled by the underlying SDKs, which only
+ * understand strings and RegExps
+ */
+export function isNativeIgnoredException(entry: IgnoredException): entry is string | RegExp {
+  return typeof entry === 'string' || entry instanceof RegExp
+}
+
+/**
+ * Whether a rule only holds strings, so it can be sent to the browser
+ */
+export function isSerializableIgnoreRule(entry: unknown): entry is IgnoreRule {
+  if (typeof entry !== 'object' || entry === null || entry instanceof RegExp) return false
+  const rule = entry as Record<string, unknown>
+  return Object.entries(rule).every(([key, value]) =>
+    key === 'runtime' && Array.isArray(value)
+      ? value.every((item) => typeof item === 'string')
+      : typeof value === 'string'
+  )
+}
+
+function compileEntry(
+  entry: IgnoredException,
+  onError?: (error: unknown) => void
+): ExceptionMatcher {
+  if (typeof entry === 'string') {
+    return (error) => error.name === entry || error.message.includes(entry)
+  }
+
+  if (entry instanceof RegExp) {
+    const pattern = statelessRegExp(entry)
+    return (error) => pattern.test(`${error.name}: ${error.message}`)
+  }
+
+  if (typeof entry === 'function') {
+    // Error classes have a prototype chain ending in Error.prototype,
+    // arrow functions have no prototype and plain functions don't inherit it
+    const proto: unknown = entry.prototype
+    if (proto === Error.prototype || proto instanceof Error) {
+      return (error) => error instanceof entry
+    }
+
+    const predicate = entry as IgnorePredicate
+    return (error, context = {}) => {
+      try {
+        return predicate(error, context) === true
+      } catch (err) {
+        onError?.(err)
+        return false
+      }
+    }
+  }
+
+  return compileRule(entry)
+}
+
+function compileRule(rule: IgnoreRule): ExceptionMatcher {
+  const checks: ExceptionMatcher[] = []
+
+  if (rule.name !== undefined) {
+    const name = typeof rule.name === 'string' ? rule.name : statelessRegExp(rule.name)
+    checks.push((error) => (typeof name === 'string' ? error.name === name : name.test(error.name)))
+  }
+
+  if (rule.messagePattern !== undefined) {
+    const pattern =
+      typeof rule.messagePattern === 'string'
+        ? rule.messagePattern
+        : statelessRegExp(rule.messagePattern)
+    checks.push((error) =>
+      typeof pattern === 'string' ? error.message.includes(pattern) : pattern.test(error.message)
+    )
+  }
+
+  if (rule.route !== undefined) {
+    const matchesRoute = createRouteMatcher([rule.route])
+    checks.push((_error, context) => !!context?.route && matchesRoute(context.route))
+  }
+
+  if (rule.runtime !== undefined) {
+    const runtimes = Array.isArray(rule.runtime) ? rule.runtime : [rule.runtime]
+    checks.push((_error, context) => !!context?.runtime && runtimes.includes(context.runtime))
+  }
+
+  // An empty rule would ignore everything, which is never what was meant
+  if (checks.length === 0) return () => false
+
+  return (error, context) => checks.every((matches) => matches(error, context))
+}
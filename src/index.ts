@@ -22,13 +22,18 @@
  * @example
  * ```tsx
  * // app/layout.tsx
- * import { CheckendProvider } from '@checkend/nextjs'
+ * import { CheckendProvider, toPublicConfig } from '@checkend/nextjs'
+ *
+ * const checkendConfig = toPublicConfig({
+ *   apiKey: process.env.CHECKEND_PUBLIC_API_KEY!,
+ *   environment: process.env.NODE_ENV,
+ * })
  *
  * export default function RootLayout({ children }) {
  *   return (
  *     <html>
  *       <body>
- *         <CheckendProvider>
+ *         <CheckendProvider config={checkendConfig}>
  *           {children}
  *         </CheckendProvider>
  *       </body>
@@ -45,17 +50,41 @@ export {
   isInitialized,
   reset,
   getFilterKeys,
+  toPublicConfig,
+  resolvePublicConfig,
   applyBeforeSend,
   sanitize,
   log,
   DEFAULT_FILTER_KEYS,
   type CheckendNextConfig,
+  type CheckendPublicConfig,
   type CheckendUser,
   type CheckendEvent,
   type CheckendLogger,
   type BeforeSendCallback,
 } from './config'
 
+// Types used by the configuration and notices
+export type { FilterKeyMatching } from './filter-keys'
+export type {
+  ExceptionRuntime,
+  IgnoreContext,
+  IgnoredException,
+  IgnorePredicate,
+  IgnoreRule,
+} from './ignored-exceptions'
+export type { Breadcrumb, BreadcrumbInput, BreadcrumbLevel } from './breadcrumbs'
+export type { ShutdownEvent } from './shutdown'
+export type { FetchInstrumentationOptions } from './fetch-instrumentation'
+export type { ErrorDetails } from './error-chain'
+export type { AppInfo } from './app-info'
+export type { PiiDetector, ScrubStrategy, ScrubValuesConfig } from './scrubbing'
+
+// Errors and checks for your own try/catch blocks
+export { isControlFlowError } from './control-flow'
+export { toError, ThrownValueError } from './throwable'
+export { UpstreamResponseError } from './fetch-instrumentation'
+
 // Components
 export {
   CheckendProvider,
@@ -65,6 +94,7 @@ export {
 
 export {
   CheckendErrorBoundary,
+  useReportError,
   type CheckendErrorBoundaryProps,
 } from './components/ErrorBoundary'
 
@@ -75,6 +105,23 @@ export { register, onRequestError } from './integrations/instrumentation'
 export { withCheckendMiddleware } from './integrations/middleware'
 export { withCheckendAction } from './integrations/server-actions'
 export { withCheckendRoute } from './integrations/route-handler'
+export {
+  withCheckendServerComponent,
+  withCheckendLayout,
+} from './integrations/server-component'
+export {
+  withCheckendApiRoute,
+  withCheckendServerSideProps,
+  withCheckendStaticProps,
+  withCheckendInitialProps,
+  notifyErrorPage,
+} from './integrations/pages-router'
+export {
+  withCheckendBuild,
+  initBuild,
+  notifyBuildError,
+  type BuildErrorOptions,
+} from './integrations/build'
 
 // For runtime-specific APIs, use subpath imports:
 // import { notify, setContext, setUser } from '@checkend/nextjs/client'
@@ -0,0 +1,210 @@
+/**
+ * Build-time error capture for Next.js `next build`
+ *
+ * `register()` in instrumentation.ts doesn't run during `next build`, so
+ * errors thrown while prerendering (`generateStaticParams`,
+ * `generateMetadata`, static pages) only show up in CI logs. Functions
+ * wrapped with `withCheckendBuild` initialize the SDK on their first error
+ * during the build, report it with `phase: 'build'`, the page and the build
+ * id, and flush before rethrowing so the notice is sent before the build
+ * process exits.
+ */
+
+import { init, isInitialized, getConfig, log, type CheckendNextConfig } from '../config'
+import { initServer, notify, flush, pendingNotices } from '../server'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
+import { flushWithTimeout } from '../shutdown'
+import { getBuiltinModule } from '../app-info'
+
+/**
+ * The value of NEXT_PHASE while `next build` runs
+ */
+export const BUILD_PHASE = 'phase-production-build'
+
+export interface BuildErrorOptions {
+  /** The page being prerendered, e.g. '/blog/[slug]' */
+  page?: string
+  /**
+   * Additional context to include with error reports
+   */
+  context?: Record<string, unknown>
+  /**
+   * Tags to include with error reports
+   */
+  tags?: string[]
+}
+
+interface WrapOptions extends BuildErrorOptions {
+  /** Name of the wrapped function, defaults to its own name */
+  name?: string
+}
+
+// Doesn't change once written; misses aren't cached, as the file may be written later
+const buildIds = new Map<string, string>()
+
+/**
+ * Whether the code runs as part of `next build`
+ */
+export function isBuildPhase(): boolean {
+  return typeof process !== 'undefined' && process.env?.NEXT_PHASE === BUILD_PHASE
+}
+
+/**
+ * The id of the running build: the `buildId` option, CHECKEND_BUILD_ID, or
+ * else `<distDir>/BUILD_ID`. Next.js writes that file after collecting page
+ * data, so while `generateStaticParams` runs it is missing, or left over
+ * from the previous build when the dist directory isn't cleaned.
+ */
+export function getBuildId(distDir = '.next'): string | undefined {
+  const configured = isInitialized() ? getConfig().buildId : undefined
+  if (configured) return configured
+  if (process.env.CHECKEND_BUILD_ID) return process.env.CHECKEND_BUILD_ID
+
+  let buildId = buildIds.get(distDir)
+  if (!buildId) {
+    buildId = readBuildId(distDir)
+    if (buildId) buildIds.set(distDir, buildId)
+  }
+  return buildId
+}
+
+/**
+ * Initialize the SDK during `next build`, from the given config or the
+ * CHECKEND_API_KEY, CHECKEND_ENDPOINT and CHECKEND_ENVIRONMENT variables.
+ * Does nothing outside the build or once initialized.
+ *
+ * @returns Whether build errors can be reported
+ */
+export function initBuild(config?: CheckendNextConfig): boolean {
+  if (!isBuildPhase()) return false
+
+  if (!isInitialized()) {
+    const resolved = config ?? readBuildEnv()
+    if (!resolved) {
+      console.warn(
+        '[Checkend] Build errors are not reported. ' +
+          'Call initBuild() with a config or set CHECKEND_API_KEY'
+      )
+      return false
+    }
+    init(resolved)
+  }
+
+  initServer()
+  return true
+}
+
+/**
+ * Report an error raised during `next build` and wait for it to be sent,
+ * at most `shutdownTimeout` milliseconds.
+ */
+export async function notifyBuildError(
+  error: Error,
+  options: BuildErrorOptions = {}
+): Promise<void> {
+  if (!initBuild()) return
+
+  notify(error, {
+    context: {
+      phase: 'build',
+      page: options.page,
+      buildId: getBuildId(),
+      ...options.context,
+    },
+    tags: ['build', ...(options.tags ?? [])],
+    route: options.page,
+  })
+
+  const timeout = getConfig().shutdownTimeout ?? 5000
+  const result = await flushWithTimeout(flush, pendingNotices, timeout)
+  if (!result.completed || result.dropped > 0) {
+    log('warn', `${result.dropped} build notice(s) not sent within ${timeout}ms`)
+  }
+}
+
+/**
+ * Wrap a function that runs while pages are prerendered, such as
+ * `generateStaticParams`, `generateMetadata` or a page component, to report
+ * its errors during `next build`. At runtime the function is called as it
+ * is; errors there reach `onRequestError`.
+ *
+ * @example
+ * ```typescript
+ * // app/blog/[slug]/page.tsx
+ * import { withCheckendBuild } from '@checkend/nextjs'
+ *
+ * export const generateStaticParams = withCheckendBuild(
+ *   async () => (await cms.getPosts()).map((post) => ({ slug: post.slug })),
+ *   { page: '/blog/[slug]' }
+ * )
+ *
+ * export const generateMetadata = withCheckendBuild(
+ *   async ({ params }) => ({ title: (await cms.getPost((await params).slug)).title }),
+ *   { page: '/blog/[slug]' }
+ * )
+ * ```
+ */
+export function withCheckendBuild<TArgs extends unknown[], TResult>(
+  fn: (...args: TArgs) => TResult | Promise<TResult>,
+  options?: WrapOptions
+): (...args: TArgs) => Promise<TResult> {
+  const name = options?.name || fn.name || '<anonymous>'
+
+  return async (...args: TArgs): Promise<TResult> => {
+    if (!isBuildPhase()) return fn(...args)
+
+    try {
+      return await fn(...args)
+    } catch (error) {
+      // notFound() and dynamic rendering bailouts are how Next.js decides what to prerender
+      if (isControlFlowError(error)) throw error
+
+      await notifyBuildError(toError(error), {
+        page: options?.page,
+        context: {
+          function: name,
+          params: await paramsOf(args[0]),
+          ...options?.context,
+        },
+        tags: options?.tags,
+      })
+      throw error
+    }
+  }
+}
+
+function readBuildEnv(): CheckendNextConfig | null {
+  const apiKey = process.env.CHECKEND_API_KEY
+  if (!apiKey) return null
+
+  return {
+    apiKey,
+    endpoint: process.env.CHECKEND_ENDPOINT || undefined,
+    environment: process.env.CHECKEND_ENVIRONMENT || undefined,
+  }
+}
+
+function readBuildId(distDir: string): string | undefined {
+  const fs = getBuiltinModule('fs') as
+    | { readFileSync?: (path: string, encoding: 'utf8') => string }
+    | undefined
+  if (!fs?.readFileSync) return undefined
+
+  const dir = distDir.startsWith('/') ? distDir : `${process.cwd()}/${distDir}`
+  try {
+    return fs.readFileSync(`${dir}/BUILD_ID`, 'utf8').trim() || undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Page props and generateMetadata props carry the route params, as a Promise since Next.js 15
+async function paramsOf(props: unknown): Promise<unknown> {
+  if (typeof props !== 'object' || props === null || !('params' in props)) return undefined
+  try {
+    return await (props as { params: unknown }).params
+  } catch {
+    return undefined
+  }
+}
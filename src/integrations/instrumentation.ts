@@ -4,6 +4,10 @@
 
 import { init, CheckendNextConfig } from '../config'
 import { initServer } from '../server'
+import { initEdge } from '../edge'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
+import { extractRouteParams } from '../route-params'
 
 /**
  * Register Checkend in your Next.js instrumentation.ts file.
@@ -26,8 +30,10 @@ export function register(config: CheckendNextConfig): void {
   // Initialize the appropriate SDK based on runtime
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     initServer()
+  } else if (process.env.NEXT_RUNTIME === 'edge') {
+    // The edge SDK sends notices per request; this only instruments fetch
+    initEdge()
   }
-  // Edge runtime uses lightweight SDK, initialized per-request
 }
 
 /**
@@ -47,11 +53,11 @@ export function register(config: CheckendNextConfig): void {
  * ```
  */
 export async function onRequestError(
-  error: Error,
+  thrown: unknown,
   request: {
     path: string
     method: string
-    headers: { [key: string]: string }
+    headers: { [key: string]: string | string[] | undefined }
   },
   context: {
     routerKind: 'Pages Router' | 'App Router'
@@ -62,32 +68,36 @@ export async function onRequestError(
     renderType?: 'dynamic' | 'dynamic-resume'
   }
 ): Promise<void> {
+  // redirect(), notFound() and bailouts aren't failures
+  if (isControlFlowError(thrown)) return
+
+  const error = toError(thrown)
+
+  const route = request.path.split('?')[0]
+  const options = {
+    request: {
+      url: request.path,
+      method: request.method,
+      headers: request.headers,
+      params: extractRouteParams(context.routePath, request.path),
+    },
+    context: {
+      routerKind: context.routerKind,
+      routePath: context.routePath,
+      routeType: context.routeType,
+      renderSource: context.renderSource,
+      revalidateReason: context.revalidateReason,
+      renderType: context.renderType,
+    },
+    route,
+  }
+
   // Dynamic import to handle both Node.js and Edge runtimes
   if (process.env.NEXT_RUNTIME === 'edge') {
     const { notify } = await import('../edge')
-    await notify(error, {
-      context: {
-        routerKind: context.routerKind,
-        routePath: context.routePath,
-        routeType: context.routeType,
-        renderSource: context.renderSource,
-        revalidateReason: context.revalidateReason,
-        renderType: context.renderType,
-      },
-    })
+    await notify(error, options)
   } else {
     const { notify } = await import('../server')
-    notify(error, {
-      context: {
-        path: request.path,
-        method: request.method,
-        routerKind: context.routerKind,
-        routePath: context.routePath,
-        routeType: context.routeType,
-        renderSource: context.renderSource,
-        revalidateReason: context.revalidateReason,
-        renderType: context.renderType,
-      },
-    })
+    notify(error, options)
   }
 }
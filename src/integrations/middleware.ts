@@ -2,21 +2,27 @@
  * Middleware wrapper for Next.js middleware
  */
 
-import { NextRequest, NextResponse } from 'next/server'
-import { notify } from '../edge'
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server'
+import { notify, runWithContext, addBreadcrumb } from '../edge'
 import { shouldIgnoreRoute } from '../config'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
 
 type NextMiddleware = (
-  request: NextRequest
+  request: NextRequest,
+  event: NextFetchEvent
 ) => NextResponse | Response | Promise<NextResponse | Response>
 
 /**
  * Wrap your Next.js middleware to automatically report errors to Checkend.
+ * Reports are sent through `event.waitUntil()`, so they don't delay the response.
+ * Each invocation gets its own breadcrumbs, and rewrites and redirects are
+ * recorded as breadcrumbs.
  *
  * @example
  * ```typescript
  * // middleware.ts
- * import { NextRequest, NextResponse } from 'next/server'
+ * import { NextFetchEvent, NextRequest, NextResponse } from 'next/server'
  * import { withCheckendMiddleware } from '@checkend/nextjs'
  *
  * async function middleware(request: NextRequest) {
@@ -35,27 +41,68 @@ type NextMiddleware = (
  * ```
  */
 export function withCheckendMiddleware(handler: NextMiddleware): NextMiddleware {
-  return async (request: NextRequest) => {
+  return async (request: NextRequest, event: NextFetchEvent) => {
     const pathname = new URL(request.url).pathname
 
     // Check if this route should be ignored
     if (shouldIgnoreRoute(pathname)) {
-      return handler(request)
+      return handler(request, event)
     }
 
-    try {
-      return await handler(request)
-    } catch (error) {
-      if (error instanceof Error) {
-        await notify(error, {
+    return runWithContext(async () => {
+      try {
+        const response = await handler(request, event)
+        recordRouting(pathname, response)
+        return response
+      } catch (error) {
+        // redirect() and friends are how Next.js controls rendering
+        if (isControlFlowError(error)) throw error
+
+        // Send in the background so the error response isn't delayed
+        const waitUntil = event?.waitUntil
+          ? (promise: Promise<unknown>) => event.waitUntil(promise)
+          : undefined
+
+        // Anything can be thrown, not only errors
+        await notify(toError(error), {
           request,
           context: {
             middleware: true,
             pathname,
           },
+          waitUntil,
+          // Without waitUntil the notice is sent before rethrowing, so
+          // onRequestError can't be waited for
+          rethrown: waitUntil !== undefined,
         })
+        throw error
       }
-      throw error
-    }
+    })
+  }
+}
+
+/**
+ * Record a breadcrumb for middleware responses that rewrite or redirect
+ */
+function recordRouting(pathname: string, response: Response | undefined): void {
+  if (!response?.headers) return
+
+  const rewrite = response.headers.get('x-middleware-rewrite')
+  if (rewrite) {
+    addBreadcrumb({
+      category: 'middleware',
+      message: `Rewrite ${pathname} to ${rewrite}`,
+      data: { from: pathname, to: rewrite },
+    })
+    return
+  }
+
+  const location = response.headers.get('location')
+  if (location && response.status >= 300 && response.status < 400) {
+    addBreadcrumb({
+      category: 'middleware',
+      message: `Redirect ${pathname} to ${location}`,
+      data: { from: pathname, to: location, status: response.status },
+    })
   }
 }
@@ -0,0 +1,320 @@
+/**
+ * Wrappers for Next.js Pages Router API routes, data fetching methods
+ * and pages/_error
+ */
+
+import type {
+  GetServerSideProps,
+  GetServerSidePropsContext,
+  GetStaticProps,
+  GetStaticPropsContext,
+  NextApiHandler,
+  NextApiRequest,
+  NextApiResponse,
+  NextPageContext,
+} from 'next'
+import type { IncomingMessage } from 'http'
+import type { ParsedUrlQuery } from 'querystring'
+// The server SDK is imported where it's used: withCheckendInitialProps and
+// notifyErrorPage also run in the browser, whose bundle mustn't include it
+import { shouldIgnoreRoute } from '../config'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
+import type { RequestLike } from '../pipeline'
+
+interface WrapOptions {
+  /**
+   * Additional context to include with error reports
+   */
+  context?: Record<string, unknown>
+  /**
+   * Tags to include with error reports
+   */
+  tags?: string[]
+}
+
+type GetInitialProps<P> = (context: NextPageContext) => P | Promise<P>
+
+/**
+ * Wrap a Pages Router API route to automatically report errors to Checkend.
+ *
+ * @example
+ * ```typescript
+ * // pages/api/users/[id].ts
+ * import type { NextApiRequest, NextApiResponse } from 'next'
+ * import { withCheckendApiRoute } from '@checkend/nextjs'
+ *
+ * async function handler(req: NextApiRequest, res: NextApiResponse) {
+ *   const user = await db.users.find(req.query.id)
+ *   res.status(200).json(user)
+ * }
+ *
+ * export default withCheckendApiRoute(handler, { tags: ['api', 'users'] })
+ * ```
+ */
+export function withCheckendApiRoute<T = unknown>(
+  handler: NextApiHandler<T>,
+  options?: WrapOptions
+): NextApiHandler<T> {
+  return async (req: NextApiRequest, res: NextApiResponse<T>) => {
+    const pathname = pathnameOf(req.url)
+
+    // Check if this route should be ignored
+    if (shouldIgnoreRoute(pathname)) {
+      return handler(req, res)
+    }
+
+    const { notify, runWithContext, addBreadcrumb } = await import('../server')
+    return runWithContext(async () => {
+      addBreadcrumb({
+        category: 'route',
+        message: `${req.method} ${pathname}`,
+        data: { method: req.method, url: pathname },
+      })
+
+      try {
+        return await handler(req, res)
+      } catch (error) {
+        // Anything can be thrown, not only errors
+        notify(toError(error), {
+          request: toRequestLike(req),
+          context: {
+            query: req.query,
+            ...options?.context,
+          },
+          tags: options?.tags,
+          route: pathname,
+          rethrown: true,
+        })
+        throw error
+      }
+    })
+  }
+}
+
+/**
+ * Wrap `getServerSideProps` to automatically report errors to Checkend.
+ *
+ * @example
+ * ```typescript
+ * // pages/posts/[id].tsx
+ * import { withCheckendServerSideProps } from '@checkend/nextjs'
+ *
+ * export const getServerSideProps = withCheckendServerSideProps(async ({ params }) => {
+ *   const post = await db.posts.find(params!.id)
+ *   return { props: { post } }
+ * })
+ * ```
+ */
+export function withCheckendServerSideProps<
+  P extends { [key: string]: any } = { [key: string]: any },
+  Q extends ParsedUrlQuery = ParsedUrlQuery,
+>(getServerSideProps: GetServerSideProps<P, Q>, options?: WrapOptions): GetServerSideProps<P, Q> {
+  return async (context: GetServerSidePropsContext<Q>) => {
+    const pathname = pathnameOf(context.resolvedUrl)
+
+    if (shouldIgnoreRoute(pathname)) {
+      return getServerSideProps(context)
+    }
+
+    const { notify, runWithContext } = await import('../server')
+    return runWithContext(async () => {
+      try {
+        return await getServerSideProps(context)
+      } catch (error) {
+        if (isControlFlowError(error)) throw error
+
+        notify(toError(error), {
+          request: { ...toRequestLike(context.req), params: paramsOf(context.params) },
+          context: {
+            dataFunction: 'getServerSideProps',
+            resolvedUrl: context.resolvedUrl,
+            locale: context.locale,
+            ...options?.context,
+          },
+          tags: options?.tags,
+          route: pathname,
+          rethrown: true,
+        })
+        throw error
+      }
+    })
+  }
+}
+
+/**
+ * Wrap `getStaticProps` to automatically report errors to Checkend,
+ * at build time (see withCheckendBuild) and during revalidation.
+ *
+ * @example
+ * ```typescript
+ * // pages/blog/[slug].tsx
+ * import { withCheckendStaticProps } from '@checkend/nextjs'
+ *
+ * export const getStaticProps = withCheckendStaticProps(async ({ params }) => {
+ *   const post = await cms.getPost(params!.slug)
+ *   return { props: { post }, revalidate: 60 }
+ * })
+ * ```
+ */
+export function withCheckendStaticProps<
+  P extends { [key: string]: any } = { [key: string]: any },
+  Q extends ParsedUrlQuery = ParsedUrlQuery,
+>(getStaticProps: GetStaticProps<P, Q>, options?: WrapOptions): GetStaticProps<P, Q> {
+  return async (context: GetStaticPropsContext<Q>) => {
+    const { notify, runWithContext } = await import('../server')
+    return runWithContext(async () => {
+      try {
+        return await getStaticProps(context)
+      } catch (error) {
+        if (isControlFlowError(error)) throw error
+
+        const reportOptions = {
+          context: {
+            dataFunction: 'getStaticProps',
+            params: context.params,
+            locale: context.locale,
+            ...options?.context,
+          },
+          tags: options?.tags,
+        }
+        const { isBuildPhase, notifyBuildError } = await import('./build')
+        if (isBuildPhase()) {
+          await notifyBuildError(toError(error), reportOptions)
+        } else {
+          notify(toError(error), { ...reportOptions, rethrown: true })
+        }
+        throw error
+      }
+    })
+  }
+}
+
+/**
+ * Wrap `getInitialProps` to automatically report errors to Checkend.
+ * getInitialProps also runs in the browser on client-side navigation,
+ * where errors are reported through the client SDK.
+ *
+ * @example
+ * ```typescript
+ * // pages/profile.tsx
+ * import { withCheckendInitialProps } from '@checkend/nextjs'
+ *
+ * Profile.getInitialProps = withCheckendInitialProps(async ({ query }) => {
+ *   const profile = await fetchProfile(query.id)
+ *   return { profile }
+ * })
+ * ```
+ */
+export function withCheckendInitialProps<P>(
+  getInitialProps: GetInitialProps<P>,
+  options?: WrapOptions
+): GetInitialProps<P> {
+  return async (context: NextPageContext) => {
+    try {
+      return await getInitialProps(context)
+    } catch (error) {
+      if (isControlFlowError(error)) throw error
+
+      await notifyPageError(
+        toError(error),
+        context,
+        { context: { dataFunction: 'getInitialProps', ...options?.context }, tags: options?.tags },
+        true
+      )
+      throw error
+    }
+  }
+}
+
+/**
+ * Report the error a custom `pages/_error.tsx` page renders for.
+ * Server errors (status 500 and above) are reported, with the status code;
+ * 404s and other client errors are not.
+ *
+ * @example
+ * ```tsx
+ * // pages/_error.tsx
+ * import NextErrorComponent, { type ErrorProps } from 'next/error'
+ * import type { NextPageContext } from 'next'
+ * import { notifyErrorPage } from '@checkend/nextjs'
+ *
+ * function ErrorPage({ statusCode }: ErrorProps) {
+ *   return <NextErrorComponent statusCode={statusCode} />
+ * }
+ *
+ * ErrorPage.getInitialProps = async (context: NextPageContext) => {
+ *   await notifyErrorPage(context)
+ *   return NextErrorComponent.getInitialProps(context)
+ * }
+ *
+ * export default ErrorPage
+ * ```
+ */
+export async function notifyErrorPage(context: NextPageContext): Promise<void> {
+  // The same status code Next.js' own error page shows
+  const statusCode = context.res?.statusCode ?? context.err?.statusCode ?? 404
+  if (statusCode < 500) return
+  if (context.err && isControlFlowError(context.err)) return
+
+  const error = context.err
+    ? toError(context.err)
+    : new Error(`_error page rendered with status ${statusCode} and no error`)
+
+  await notifyPageError(error, context, { context: { errorPage: true, statusCode } })
+}
+
+/**
+ * Report an error raised while rendering a page, from whichever side
+ * the page is rendered on. A `rethrown` error is also reported to
+ * onRequestError on the server, which the notice waits for.
+ */
+async function notifyPageError(
+  error: Error,
+  context: NextPageContext,
+  options: WrapOptions,
+  rethrown = false
+): Promise<void> {
+  const route = pathnameOf(context.asPath)
+  const pageContext = {
+    pathname: context.pathname,
+    asPath: context.asPath,
+    query: context.query,
+    ...options.context,
+  }
+
+  if (typeof window !== 'undefined') {
+    const client = await import('../client')
+    await client.notify(error, { context: pageContext, tags: options.tags, route })
+    return
+  }
+
+  const { notify } = await import('../server')
+  notify(error, {
+    request: context.req ? toRequestLike(context.req) : undefined,
+    context: pageContext,
+    tags: options.tags,
+    route,
+    rethrown,
+  })
+}
+
+function toRequestLike(req: IncomingMessage): RequestLike {
+  return {
+    url: req.url || '/',
+    method: req.method || 'GET',
+    headers: req.headers,
+  }
+}
+
+function paramsOf(params: ParsedUrlQuery | undefined): RequestLike['params'] {
+  if (!params) return undefined
+  const entries = Object.entries(params).filter(
+    (entry): entry is [string, string | string[]] => entry[1] !== undefined
+  )
+  return Object.fromEntries(entries)
+}
+
+function pathnameOf(url: string | undefined): string {
+  return (url || '/').split(/[?#]/)[0] || '/'
+}
@@ -3,8 +3,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { notify, runWithContext } from '../server'
+import { notify, runWithContext, addBreadcrumb } from '../server'
 import { shouldIgnoreRoute } from '../config'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
 
 type RouteHandler = (
   request: NextRequest,
@@ -55,31 +57,41 @@ export function withCheckendRoute(
     }
 
     return runWithContext(async () => {
+      addBreadcrumb({
+        category: 'route',
+        message: `${request.method} ${pathname}`,
+        data: { method: request.method, url: pathname },
+      })
+
       try {
         return await handler(request, routeContext)
       } catch (error) {
-        if (error instanceof Error) {
-          // Resolve params if available
-          let params: Record<string, string> | undefined
-          try {
-            if (routeContext?.params) {
-              params = await routeContext.params
-            }
-          } catch {
-            // params might not be available
-          }
+        // redirect(), notFound() and bailouts are how Next.js controls rendering
+        if (isControlFlowError(error)) throw error
 
-          notify(error, {
-            context: {
-              url: pathname,
-              method: request.method,
-              params,
-              searchParams: Object.fromEntries(url.searchParams),
-              ...options?.context,
-            },
-            tags: options?.tags,
-          })
+        // Resolve params if available
+        let params: Record<string, string> | undefined
+        try {
+          if (routeContext?.params) {
+            params = await routeContext.params
+          }
+        } catch {
+          // params might not be available
         }
+
+        // Anything can be thrown, not only errors
+        notify(toError(error), {
+          context: {
+            url: pathname,
+            method: request.method,
+            params,
+            searchParams: Object.fromEntries(url.searchParams),
+            ...options?.context,
+          },
+          tags: options?.tags,
+          route: pathname,
+          rethrown: true,
+        })
         throw error
       }
     })
@@ -3,7 +3,9 @@
  */
 
 import { headers } from 'next/headers'
-import { notify, runWithContext } from '../server'
+import { notify, runWithContext, addBreadcrumb } from '../server'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
 
 type ServerAction<TArgs extends unknown[], TResult> = (
   ...args: TArgs
@@ -57,28 +59,37 @@ export function withCheckendAction<TArgs extends unknown[], TResult>(
 
   return async (...args: TArgs): Promise<TResult> => {
     return runWithContext(async () => {
+      addBreadcrumb({
+        category: 'action',
+        message: `Invoked ${actionName}`,
+        data: { actionName },
+      })
+
       try {
         return await action(...args)
       } catch (error) {
-        if (error instanceof Error) {
-          // Get request context
-          let referer: string | null = null
-          try {
-            const headersList = await headers()
-            referer = headersList.get('referer')
-          } catch {
-            // headers() might not be available in all contexts
-          }
+        // redirect(), notFound() and bailouts are how Next.js controls rendering
+        if (isControlFlowError(error)) throw error
 
-          notify(error, {
-            context: {
-              actionName,
-              referer,
-              ...options?.context,
-            },
-            tags: options?.tags,
-          })
+        // Get request context
+        let referer: string | null = null
+        try {
+          const headersList = await headers()
+          referer = headersList.get('referer')
+        } catch {
+          // headers() might not be available in all contexts
         }
+
+        // Anything can be thrown, not only errors
+        notify(toError(error), {
+          context: {
+            actionName,
+            referer,
+            ...options?.context,
+          },
+          tags: options?.tags,
+          rethrown: true,
+        })
         throw error
       }
     })
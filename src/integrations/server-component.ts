@@ -0,0 +1,153 @@
+/**
+ * Server component wrappers for Next.js App Router pages and layouts
+ */
+
+import type { ReactNode } from 'react'
+import { notify, runWithContext } from '../server'
+import { isControlFlowError } from '../control-flow'
+import { toError } from '../throwable'
+import { isBuildPhase, notifyBuildError } from './build'
+
+type ServerComponent<P> = (props: P) => ReactNode | Promise<ReactNode>
+
+type ComponentType = 'page' | 'layout'
+
+interface WrapOptions {
+  /**
+   * Name of the component for error reporting context,
+   * defaults to the function name
+   */
+  name?: string
+  /**
+   * Route segment the component renders, e.g. '/blog/[slug]'
+   */
+  segment?: string
+  /**
+   * Additional context to include with error reports
+   */
+  context?: Record<string, unknown>
+  /**
+   * Tags to include with error reports
+   */
+  tags?: string[]
+}
+
+// Props Next.js passes that are reported on their own or can't be reported
+const OMITTED_PROPS = new Set(['params', 'searchParams', 'children'])
+
+/**
+ * Wrap an async server component (usually a page) to report its errors
+ * with the route segment, resolved `params` and `searchParams`, render
+ * duration and props.
+ *
+ * @example
+ * ```typescript
+ * // app/blog/[slug]/page.tsx
+ * import { withCheckendServerComponent } from '@checkend/nextjs'
+ *
+ * async function BlogPost({ params }: { params: Promise<{ slug: string }> }) {
+ *   const post = await cms.getPost((await params).slug)
+ *   return <article>{post.body}</article>
+ * }
+ *
+ * export default withCheckendServerComponent(BlogPost, { segment: '/blog/[slug]' })
+ * ```
+ */
+export function withCheckendServerComponent<P>(
+  component: ServerComponent<P>,
+  options?: WrapOptions
+): (props: P) => Promise<ReactNode> {
+  return wrapComponent(component, 'page', options)
+}
+
+/**
+ * Wrap an async layout, reporting its errors like
+ * withCheckendServerComponent. `children` and parallel route slots are
+ * left out of the reported props.
+ *
+ * @example
+ * ```typescript
+ * // app/dashboard/layout.tsx
+ * import { withCheckendLayout } from '@checkend/nextjs'
+ *
+ * async function DashboardLayout({ children }: { children: React.ReactNode }) {
+ *   const user = await getCurrentUser()
+ *   return <Shell user={user}>{children}</Shell>
+ * }
+ *
+ * export default withCheckendLayout(DashboardLayout, { segment: '/dashboard' })
+ * ```
+ */
+export function withCheckendLayout<P>(
+  component: ServerComponent<P>,
+  options?: WrapOptions
+): (props: P) => Promise<ReactNode> {
+  return wrapComponent(component, 'layout', options)
+}
+
+function wrapComponent<P>(
+  component: ServerComponent<P>,
+  componentType: ComponentType,
+  options?: WrapOptions
+): (props: P) => Promise<ReactNode> {
+  const componentName = options?.name || component.name || '<anonymous>'
+
+  return async (props: P): Promise<ReactNode> => {
+    return runWithContext(async () => {
+      const start = Date.now()
+      try {
+        return await component(props)
+      } catch (error) {
+        // redirect(), notFound() and bailouts are how Next.js controls rendering
+        if (isControlFlowError(error)) throw error
+
+        const reportOptions = {
+          context: {
+            component: componentName,
+            componentType,
+            segment: options?.segment,
+            params: await resolveProp(props, 'params'),
+            searchParams: await resolveProp(props, 'searchParams'),
+            renderDuration: Date.now() - start,
+            props: reportedProps(props),
+            ...options?.context,
+          },
+          tags: options?.tags,
+        }
+
+        // Anything can be thrown, not only errors
+        if (isBuildPhase()) {
+          await notifyBuildError(toError(error), { ...reportOptions, page: options?.segment })
+        } else {
+          notify(toError(error), { ...reportOptions, rethrown: true })
+        }
+        throw error
+      }
+    })
+  }
+}
+
+// params and searchParams are Promises since Next.js 15 and plain objects before
+async function resolveProp(props: unknown, key: string): Promise<unknown> {
+  if (typeof props !== 'object' || props === null) return undefined
+  try {
+    return await (props as Record<string, unknown>)[key]
+  } catch {
+    return undefined
+  }
+}
+
+// Other props, without React elements (children, parallel route slots);
+// the pipeline sanitizes and serializes what's left
+function reportedProps(props: unknown): Record<string, unknown> | undefined {
+  if (typeof props !== 'object' || props === null) return undefined
+
+  const entries = Object.entries(props).filter(
+    ([key, value]) => !OMITTED_PROPS.has(key) && !isReactElement(value)
+  )
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function isReactElement(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && '$$typeof' in value
+}
@@ -0,0 +1,480 @@
+/**
+ * Notice pipeline for @checkend/nextjs
+ *
+ * Every runtime and wrapper reports errors through the same steps, so a
+ * notice looks the same wherever the error was caught:
+ *
+ * 1. ignore checks (ignoredExceptions, control-flow errors) and ignoredRoutes
+ * 2. sampling
+ * 3. deduplication (notify() only)
+ * 4. sanitizing context, request, user and breadcrumb data, scrubbing the
+ *    message
+ * 5. cause chains, fingerprinting, the Next.js digest and app metadata
+ *    (environment, revision, runtime, host)
+ * 6. beforeSend callbacks
+ * 7. serialization into JSON-safe data
+ *
+ * Runtimes only differ in how the resulting notice is delivered.
+ */
+
+import type { CheckendEvent, CheckendUser } from './config'
+import {
+  getConfig,
+  isInitialized,
+  shouldIgnoreException,
+  shouldIgnoreRoute,
+  applyBeforeSend,
+  sanitize,
+  restrictToAllowKeys,
+  scrubText,
+  scrubErrorText,
+  getKeyFilter,
+  log,
+} from './config'
+import type { ExceptionRuntime } from './ignored-exceptions'
+import { sample, withSamplingContext, type SamplingDecision } from './sampling'
+import { isDuplicate, withDuplicatesContext, flushDuplicates } from './dedupe'
+import { errorToEvent, eventToError } from './event'
+import { serializeAs } from './serializer'
+import { getAppInfo } from './app-info'
+import { describeErrorChain, rootCauseFingerprint } from './error-chain'
+import { thrownValueContext, thrownIdentity, isThrownPrimitive } from './throwable'
+import { getErrorDigest } from './digest'
+import { getBreadcrumbs, type Breadcrumb } from './breadcrumbs'
+
+/**
+ * A request an error happened in: a fetch Request, or the plain request
+ * object Next.js passes to onRequestError
+ */
+export interface RequestLike {
+  /** Absolute URL, or path with query string */
+  url: string
+  method: string
+  headers: Headers | Record<string, string | string[] | undefined>
+  /** Dynamic route parameters */
+  params?: Record<string, string | string[]>
+}
+
+/**
+ * What a runtime knows about an error it reports
+ */
+export interface PipelineOptions {
+  runtime: ExceptionRuntime
+  context?: Record<string, unknown>
+  /** Incoming request, its URL, method and headers are included */
+  request?: RequestLike
+  user?: CheckendUser
+  tags?: string[]
+  fingerprint?: string
+  /** Route the error happened on, defaults to the request pathname */
+  route?: string
+  /** Defaults to the breadcrumbs of the current request */
+  breadcrumbs?: Breadcrumb[]
+  /**
+   * The error is rethrown to Next.js, which reports it to onRequestError:
+   * the notice waits for that report and is sent once, with its request
+   * and digest
+   */
+  rethrown?: boolean
+}
+
+/**
+ * A notice that went through the pipeline: the event to send, and the
+ * error it describes for SDKs that take an Error
+ */
+export interface PreparedNotice {
+  error: Error
+  event: CheckendEvent
+}
+
+export type SendNotice = (notice: PreparedNotice) => void | Promise<void>
+
+/**
+ * Headers that are always filtered, regardless of filterKeys
+ */
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'x-api-key', 'x-auth-token']
+
+/**
+ * Headers carrying the client IP address, in order of precedence.
+ * Filtered unless captureClientIp is on.
+ */
+const CLIENT_IP_HEADERS = [
+  'x-forwarded-for',
+  'x-real-ip',
+  'cf-connecting-ip',
+  'true-client-ip',
+  'x-vercel-forwarded-for',
+  'fly-client-ip',
+  'x-client-ip',
+  'forwarded',
+]
+
+// Notices still on their way to `send`, awaited by flushPipeline()
+const pending = new Set<Promise<void>>()
+
+// How long a notice for a rethrown error waits for onRequestError, which
+// Next.js calls once it has set the error's digest
+const REQUEST_ERROR_WAIT = 1000
+
+type Release = (later?: PipelineOptions) => void
+
+// Notices for rethrown errors waiting for onRequestError, by thrown value
+// (see thrownIdentity()), oldest first; released with the options of its
+// report. A primitive thrown in concurrent requests can wait more than once.
+const awaitingRequestError = new Map<unknown, Release[]>()
+
+// Rethrown errors, so an onRequestError report arriving after the wait
+// doesn't report them again
+const rethrownErrors = new WeakSet<Error>()
+
+/**
+ * Run an error through the pipeline and hand the notice to `send`.
+ * Identical errors within `dedupeWindow` are sent once, followed by a
+ * single notice carrying the duplicate count. A `rethrown` error is sent
+ * once onRequestError reported it too, merged with that report.
+ * Resolves once the notice was handed over or dropped; never rejects.
+ */
+export function processError(
+  error: Error,
+  options: PipelineOptions,
+  send: SendNotice
+): Promise<void> {
+  // The same primitive rethrown again is another throw, not this one's report
+  const waiting = awaitingRequestError.get(thrownIdentity(error))
+  if (waiting && !(options.rethrown && isThrownPrimitive(error))) {
+    waiting[0](options)
+    return Promise.resolve()
+  }
+  if (rethrownErrors.has(error)) return Promise.resolve()
+  if (options.rethrown) rethrownErrors.add(error)
+
+  const route = resolveRoute(options)
+  const decision = screen(error, options, route)
+  if (!decision) return Promise.resolve()
+
+  // Taken now, while still in the request's scope
+  const scoped = withBreadcrumbs(options)
+
+  const duplicate = isDuplicate(error, (duplicates) => {
+    track(deliver(error, scoped, decision, send, duplicates))
+  })
+  if (duplicate) return Promise.resolve()
+
+  if (!options.rethrown) return track(deliver(error, scoped, decision, send))
+  return track(
+    awaitRequestError(error, scoped).then((merged) => deliver(error, merged, decision, send))
+  )
+}
+
+/**
+ * Run an error through the pipeline without deduplication, for callers
+ * that send it themselves and wait for the result.
+ * Resolves to null when the error is ignored, sampled out or dropped by beforeSend.
+ */
+export async function prepareNotice(
+  error: Error,
+  options: PipelineOptions
+): Promise<PreparedNotice | null> {
+  const route = resolveRoute(options)
+  const decision = screen(error, options, route)
+  if (!decision) return null
+
+  return buildNotice(error, withBreadcrumbs(options), decision)
+}
+
+/**
+ * Stop waiting for onRequestError, report pending duplicate counts and
+ * wait for notices still going through beforeSend to be handed to their
+ * runtime.
+ */
+export async function flushPipeline(): Promise<void> {
+  for (const waiting of [...awaitingRequestError.values()]) {
+    for (const release of [...waiting]) release()
+  }
+  flushDuplicates()
+  await Promise.all([...pending])
+}
+
+/**
+ * Number of notices still going through beforeSend
+ */
+export function pendingCount(): number {
+  return pending.size
+}
+
+/**
+ * Filter context set with setContext(), which the SDKs attach to every
+ * notice, like the context passed to notify()
+ */
+export function sanitizeGlobalContext(context: Record<string, unknown>): Record<string, unknown> {
+  if (!isInitialized()) return context
+  return sanitize(context, undefined, ['context'])
+}
+
+/**
+ * Restrict the user set with setUser(), which the SDKs attach to every
+ * notice, to `allowKeys` like the user passed to notify()
+ */
+export function sanitizeGlobalUser(user: CheckendUser): CheckendUser {
+  if (!isInitialized()) return user
+  return restrictToAllowKeys(user, ['user'])
+}
+
+/**
+ * Ignore checks and sampling. Returns the sampling decision, or null when
+ * the error shouldn't be reported.
+ */
+function screen(
+  error: Error,
+  options: PipelineOptions,
+  route: string | undefined
+): SamplingDecision | null {
+  const ignoreContext = { runtime: options.runtime, route, context: options.context }
+  if (shouldIgnoreException(error, ignoreContext)) return null
+  if (route && shouldIgnoreRoute(route)) return null
+
+  const decision = sample(error, route)
+  return decision.sampled ? decision : null
+}
+
+/**
+ * Wait for onRequestError to report a rethrown error, at most
+ * REQUEST_ERROR_WAIT. Resolves to the options of the first report,
+ * completed with those of the onRequestError report if it came.
+ */
+function awaitRequestError(error: Error, options: PipelineOptions): Promise<PipelineOptions> {
+  const key = thrownIdentity(error)
+  return new Promise((resolve) => {
+    const release: Release = (later) => {
+      const waiting = awaitingRequestError.get(key) ?? []
+      const index = waiting.indexOf(release)
+      if (index === -1) return
+      clearTimeout(timer)
+      waiting.splice(index, 1)
+      if (waiting.length === 0) awaitingRequestError.delete(key)
+      resolve(later ? mergeReports(options, later) : options)
+    }
+    const timer = setTimeout(release, REQUEST_ERROR_WAIT)
+    awaitingRequestError.set(key, [...(awaitingRequestError.get(key) ?? []), release])
+  })
+}
+
+// The first report wins; the later one adds what it alone knows, such as
+// the request and the routing context onRequestError receives
+function mergeReports(first: PipelineOptions, later: PipelineOptions): PipelineOptions {
+  const tags = first.tags && later.tags ? [...new Set([...first.tags, ...later.tags])] : undefined
+  return {
+    ...first,
+    context: later.context || first.context ? { ...later.context, ...first.context } : undefined,
+    request: first.request ?? later.request,
+    user: first.user ?? later.user,
+    tags: tags ?? first.tags ?? later.tags,
+    fingerprint: first.fingerprint ?? later.fingerprint,
+    route: first.route ?? later.route,
+  }
+}
+
+async function deliver(
+  error: Error,
+  options: PipelineOptions,
+  decision: SamplingDecision,
+  send: SendNotice,
+  duplicates?: number
+): Promise<void> {
+  try {
+    const notice = await buildNotice(error, options, decision, duplicates)
+    if (notice) await send(notice)
+  } catch (e) {
+    log('error', 'Failed to notify:', e)
+  }
+}
+
+/**
+ * Sanitize, fingerprint, run beforeSend and serialize.
+ */
+async function buildNotice(
+  error: Error,
+  options: PipelineOptions,
+  decision: SamplingDecision,
+  duplicates?: number
+): Promise<PreparedNotice | null> {
+  const scrubbed = scrubErrorText(error)
+
+  const rawContext = withThrownValue(options.context, error)
+  let context = rawContext ? sanitize(rawContext, undefined, ['context']) : undefined
+  context = withSamplingContext(context, decision)
+  if (duplicates !== undefined) context = withDuplicatesContext(context, duplicates)
+
+  const config = getConfig()
+  // Described from the original error: AggregateError's `errors` isn't copied when scrubbing
+  const chain = describeErrorChain(error, { maxDepth: config.maxCauseDepth, scrub: scrubText })
+
+  const event = errorToEvent(scrubbed, {
+    context,
+    request: options.request ? requestData(options.request) : undefined,
+    user: restrictToAllowKeys(options.user, ['user']),
+    tags: options.tags,
+    fingerprint: options.fingerprint ?? defaultFingerprint(error),
+    app: getAppInfo(options.runtime),
+    digest: getErrorDigest(error),
+    breadcrumbs: sanitizeBreadcrumbs(options.breadcrumbs),
+    ...chain,
+  })
+
+  let result: CheckendEvent | null = event
+  if (config.beforeSend) {
+    result = await applyBeforeSend(event)
+    if (result === null) {
+      log('debug', 'beforeSend returned null, skipping')
+      return null
+    }
+  }
+
+  // Callbacks may have added values that aren't JSON-safe
+  const serialized: CheckendEvent = {
+    ...result,
+    context: serializeAs(result.context),
+    request: serializeAs(result.request),
+    user: serializeAs(result.user),
+    breadcrumbs: serializeAs(result.breadcrumbs),
+  }
+
+  return { error: eventToError(serialized, scrubbed).error, event: serialized }
+}
+
+/**
+ * Add the value behind a ThrownValueError to the context, so it's
+ * sanitized and serialized like the rest
+ */
+function withThrownValue(
+  context: Record<string, unknown> | undefined,
+  error: Error
+): Record<string, unknown> | undefined {
+  const thrownValue = thrownValueContext(error)
+  if (thrownValue === undefined) return context
+  return { ...context, thrownValue }
+}
+
+function withBreadcrumbs(options: PipelineOptions): PipelineOptions {
+  if (options.breadcrumbs) return options
+  return { ...options, breadcrumbs: getBreadcrumbs() }
+}
+
+/**
+ * Scrub breadcrumb messages and sanitize their data like context data
+ */
+function sanitizeBreadcrumbs(breadcrumbs: Breadcrumb[] | undefined): Breadcrumb[] | undefined {
+  if (!breadcrumbs || breadcrumbs.length === 0) return undefined
+  return breadcrumbs.map((crumb) => ({
+    ...crumb,
+    message: scrubText(crumb.message),
+    data: crumb.data && sanitize(crumb.data, undefined, ['breadcrumbs', 'data']),
+  }))
+}
+
+function defaultFingerprint(error: Error): string | undefined {
+  if (!getConfig().fingerprintRootCause) return undefined
+  return scrubText(rootCauseFingerprint(error))
+}
+
+/**
+ * Extract the URL, method, headers, client IP and params of a request,
+ * with sensitive headers filtered and the allowlist applied
+ */
+function requestData(request: RequestLike): Record<string, unknown> {
+  const headers = headerEntries(request.headers)
+  const captureClientIp = getConfig().captureClientIp === true
+
+  return restrictToAllowKeys(
+    {
+      url: scrubText(pathWithQuery(request.url)),
+      method: request.method,
+      headers: filterHeaders(headers, captureClientIp),
+      user_agent: headerValue(headers, 'user-agent'),
+      client_ip: captureClientIp ? clientIp(headers) : undefined,
+      params: request.params && sanitize(request.params, undefined, ['request', 'params']),
+    },
+    ['request']
+  )
+}
+
+/**
+ * Filter sensitive data from headers.
+ * Header names are matched against filterKeys as `request.headers.<name>`.
+ */
+function filterHeaders(
+  headers: [string, string][],
+  captureClientIp: boolean
+): Record<string, string> {
+  const keyFilter = getKeyFilter()
+  const filtered: Record<string, string> = {}
+
+  for (const [key, value] of headers) {
+    const name = key.toLowerCase()
+    if (
+      SENSITIVE_HEADERS.includes(name) ||
+      (!captureClientIp && CLIENT_IP_HEADERS.includes(name)) ||
+      keyFilter(key, ['request', 'headers', key])
+    ) {
+      filtered[key] = '[FILTERED]'
+    } else {
+      filtered[key] = scrubText(value)
+    }
+  }
+
+  return filtered
+}
+
+function clientIp(headers: [string, string][]): string | undefined {
+  for (const name of CLIENT_IP_HEADERS) {
+    if (name === 'forwarded') continue
+    // x-forwarded-for lists proxies after the client
+    const value = headerValue(headers, name)?.split(',')[0].trim()
+    if (value) return scrubText(value)
+  }
+  return undefined
+}
+
+function headerEntries(headers: RequestLike['headers']): [string, string][] {
+  if (typeof headers.entries === 'function') {
+    return [...(headers as Headers).entries()]
+  }
+
+  const entries: [string, string][] = []
+  for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (typeof value === 'string') entries.push([key, value])
+    else if (Array.isArray(value)) entries.push([key, value.join(', ')])
+  }
+  return entries
+}
+
+function headerValue(headers: [string, string][], name: string): string | undefined {
+  return headers.find(([key]) => key.toLowerCase() === name)?.[1] || undefined
+}
+
+/**
+ * The path and query of a URL, which may already be relative
+ */
+function pathWithQuery(url: string): string {
+  try {
+    const parsed = new URL(url, 'http://localhost')
+    return `${parsed.pathname}${parsed.search}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * The route used for ignoredRoutes and per-route sampling
+ */
+function resolveRoute(options: PipelineOptions): string | undefined {
+  if (options.route) return options.route
+  if (!options.request) return undefined
+  return pathWithQuery(options.request.url).split('?')[0]
+}
+
+function track(promise: Promise<void>): Promise<void> {
+  pending.add(promise)
+  promise.finally(() => pending.delete(promise))
+  return promise
+}
@@ -0,0 +1,166 @@
+/**
+ * Route matching for @checkend/nextjs
+ *
+ * Matches request paths against route patterns. Entries can be:
+ * - plain paths ('/health', '/api'), matching the path and everything below
+ *   it on a segment boundary, so '/api' matches '/api/users' but not '/apiary'
+ * - Next.js middleware `matcher` patterns ('/api/:path*', '/blog/:slug',
+ *   '/((?!_next/static|favicon.ico).*)'), matched against the whole path
+ * - regular expressions, tested against the path
+ *
+ * Route groups ('/(marketing)/about') are dropped from patterns and paths,
+ * as they never appear in URLs.
+ */
+
+import { escapeRegExp, normalizePath, statelessRegExp } from './utils'
+
+/**
+ * Returns true when the path matches one of the patterns
+ */
+export type RouteMatcher = (route: string) => boolean
+
+export interface RouteMatcherOptions {
+  /**
+   * Locales used as the first path segment (Next.js i18n routing).
+   * A path with a locale prefix also matches the patterns without it,
+   * so '/admin' matches '/fr/admin'.
+   */
+  locales?: string[]
+}
+
+// A whole segment wrapped in parentheses, e.g. '(marketing)'
+const ROUTE_GROUP = /\/\([\w-]+\)(?=\/|$)/g
+
+/**
+ * Compile route patterns into a matcher.
+ */
+export function createRouteMatcher(
+  patterns: readonly (string | RegExp)[],
+  options: RouteMatcherOptions = {}
+): RouteMatcher {
+  const matchers = patterns.map(compileEntry)
+  if (matchers.length === 0) return () => false
+
+  const locales = new Set(options.locales || [])
+
+  return (route) => {
+    const path = normalizeRoute(route)
+    if (matchers.some((matches) => matches(path))) return true
+
+    const locale = path.split('/')[1]
+    if (!locale || !locales.has(locale)) return false
+
+    const unprefixed = path.slice(locale.length + 1) || '/'
+    return matchers.some((matches) => matches(unprefixed))
+  }
+}
+
+/**
+ * Compile a Next.js `matcher` pattern into an anchored RegExp.
+ * Supports named parameters (`:slug`), the `*`, `+` and `?` modifiers,
+ * custom parameter patterns (`:id(\\d+)`) and raw groups such as negative
+ * lookaheads. A trailing slash is optional, as in Next.js.
+ */
+export function compileRoutePattern(pattern: string): RegExp {
+  const input = stripRouteGroups(pattern)
+  let source = ''
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (char === '\\' && i + 1 < input.length) {
+      source += escapeRegExp(input[i + 1])
+      i += 2
+      continue
+    }
+
+    if (char !== ':' && char !== '(') {
+      source += escapeRegExp(char)
+      i++
+      continue
+    }
+
+    let group = '[^/]+?'
+    if (char === ':') {
+      const name = /^:\w+/.exec(input.slice(i))
+      if (!name) {
+        source += ':'
+        i++
+        continue
+      }
+      i += name[0].length
+    }
+
+    if (input[i] === '(') {
+      const end = findGroupEnd(input, i)
+      group = input.slice(i + 1, end)
+      i = end + 1
+    }
+
+    const modifier = '*+?'.includes(input[i] ?? '') ? input[i++] : ''
+
+    // As in path-to-regexp, a preceding slash belongs to the parameter,
+    // so '/api/:path*' matches '/api' as well as '/api/a/b'
+    let prefix = ''
+    if (source.endsWith('/')) {
+      source = source.slice(0, -1)
+      prefix = '/'
+    }
+
+    const segment = `${prefix}(?:${group})`
+    if (modifier === '*') {
+      source += `(?:${segment}(?:${prefix}(?:${group}))*)?`
+    } else if (modifier === '+') {
+      source += `${segment}(?:${prefix}(?:${group}))*`
+    } else if (modifier === '?') {
+      source += `(?:${segment})?`
+    } else {
+      source += segment
+    }
+  }
+
+  return new RegExp(`^${source.replace(/\/$/, '')}/?$`)
+}
+
+function compileEntry(entry: string | RegExp): RouteMatcher {
+  if (entry instanceof RegExp) {
+    const pattern = statelessRegExp(entry)
+    return (route) => pattern.test(route)
+  }
+
+  if (/[:()\\]/.test(entry)) {
+    const pattern = compileRoutePattern(entry)
+    return (route) => pattern.test(route)
+  }
+
+  const path = normalizeRoute(entry)
+  if (path === '/') return () => true
+  return (route) => route === path || route.startsWith(`${path}/`)
+}
+
+/**
+ * Drop the query, hash, route groups and trailing slash from a path
+ */
+function normalizeRoute(route: string): string {
+  return stripRouteGroups(normalizePath(route))
+}
+
+function stripRouteGroups(path: string): string {
+  return path.replace(ROUTE_GROUP, '') || '/'
+}
+
+function findGroupEnd(input: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === '\\') {
+      i++
+    } else if (input[i] === '(') {
+      depth++
+    } else if (input[i] === ')') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  throw new Error(`Checkend: unbalanced parentheses in route pattern '${input}'`)
+}
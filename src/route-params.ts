@@ -0,0 +1,91 @@
+/**
+ * Route parameters for @checkend/nextjs
+ *
+ * Recovers the dynamic parameters of a request from the file-system route
+ * Next.js reports it under (`/blog/[slug]`, `/docs/[...path]`,
+ * `/shop/[[...filters]]`), for errors that reach `onRequestError` without
+ * going through a wrapper that has the params at hand.
+ */
+
+import { escapeRegExp, normalizePath } from './utils'
+
+export type RouteParams = Record<string, string | string[]>
+
+// Files that end a route path without being a URL segment
+const ROUTE_FILES = /\/(?:page|route|layout|template|default|error|not-found|loading)$/
+
+// The router directory the route path may start with
+const ROUTER_DIRS = /^\/(?:src\/)?(?:app|pages)(?=\/|$)/
+
+/**
+ * Extract the dynamic parameters of a path from the route it matched.
+ * Returns undefined when the route has no parameters or doesn't match.
+ *
+ * @example
+ * extractRouteParams('/blog/[slug]', '/blog/hello') // { slug: 'hello' }
+ */
+export function extractRouteParams(routePath: string, path: string): RouteParams | undefined {
+  if (!routePath.includes('[')) return undefined
+
+  const pathname = normalizePath(path)
+  const route = routePath.replace(ROUTE_FILES, '') || '/'
+
+  // The route path may or may not include the router directory
+  const candidates = [route, route.replace(ROUTER_DIRS, '') || '/']
+  for (const candidate of candidates) {
+    const params = matchRoute(candidate, pathname)
+    if (params) return params
+  }
+  return undefined
+}
+
+function matchRoute(route: string, pathname: string): RouteParams | undefined {
+  const names: { name: string; catchAll: boolean }[] = []
+  let source = ''
+
+  for (const segment of route.split('/').filter(Boolean)) {
+    // Route groups and parallel route slots never appear in URLs
+    if (/^\(.*\)$/.test(segment) || segment.startsWith('@')) continue
+
+    // Intercepting routes: '(.)photo', '(..)(..)photo'
+    const name = segment.replace(/^(?:\(\.{1,3}\))+/, '')
+
+    const optionalCatchAll = /^\[\[\.\.\.(\w+)\]\]$/.exec(name)
+    const catchAll = /^\[\.\.\.(\w+)\]$/.exec(name)
+    const dynamic = /^\[(\w+)\]$/.exec(name)
+
+    if (optionalCatchAll) {
+      names.push({ name: optionalCatchAll[1], catchAll: true })
+      source += '(?:/(.+))?'
+    } else if (catchAll) {
+      names.push({ name: catchAll[1], catchAll: true })
+      source += '/(.+)'
+    } else if (dynamic) {
+      names.push({ name: dynamic[1], catchAll: false })
+      source += '/([^/]+)'
+    } else {
+      source += `/${escapeRegExp(name)}`
+    }
+  }
+
+  if (names.length === 0) return undefined
+
+  const match = new RegExp(`^${source}/?$`).exec(pathname)
+  if (!match) return undefined
+
+  const params: RouteParams = {}
+  names.forEach(({ name, catchAll }, i) => {
+    const value = match[i + 1]
+    if (value === undefined) return
+    params[name] = catchAll ? value.split('/').map(decode) : decode(value)
+  })
+  return params
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Sampling for @checkend/nextjs
+ *
+ * Decides whether an error is reported based on `sampleRate` and the
+ * per-class/per-route `sampleRates` overrides. The rate used is recorded on
+ * the notice so the dashboard can extrapolate the real occurrence count.
+ */
+
+import { getConfig, type CheckendNextConfig } from './config'
+import { createRouteMatcher, type RouteMatcher } from './route-matcher'
+
+export interface SamplingDecision {
+  /** Whether the error should be reported */
+  sampled: boolean
+  /** The rate that was applied, between 0 and 1 */
+  rate: number
+  /** The sampleRates key that selected the rate, if any */
+  rule?: string
+}
+
+// Compiled route keys, per configuration so init() starts afresh
+const routeMatchers = new WeakMap<CheckendNextConfig, [string, RouteMatcher][]>()
+
+/**
+ * Resolve the sample rate for an error.
+ * An error class override wins over a route override, and the longest
+ * matching route wins among routes. Route keys match like `ignoredRoutes`,
+ * so '/api/search' covers '/api/search/users' but not '/api/searchable'.
+ * Falls back to `sampleRate`.
+ */
+export function getSampleRate(
+  error: Error,
+  route?: string
+): { rate: number; rule?: string } {
+  const config = getConfig()
+  const defaultRate = config.sampleRate ?? 1
+  const rates = config.sampleRates
+  if (!rates) return { rate: defaultRate }
+
+  if (Object.prototype.hasOwnProperty.call(rates, error.name) && !error.name.startsWith('/')) {
+    return { rate: rates[error.name], rule: error.name }
+  }
+
+  if (route) {
+    let match: string | undefined
+    for (const [key, matches] of getRouteMatchers(config)) {
+      if (matches(route) && (!match || key.length > match.length)) match = key
+    }
+    if (match) return { rate: rates[match], rule: match }
+  }
+
+  return { rate: defaultRate }
+}
+
+/**
+ * Make a sampling decision for an error.
+ */
+export function sample(error: Error, route?: string): SamplingDecision {
+  const { rate, rule } = getSampleRate(error, route)
+
+  let sampled: boolean
+  if (rate >= 1) {
+    sampled = true
+  } else if (rate <= 0) {
+    sampled = false
+  } else {
+    sampled = Math.random() < rate
+  }
+
+  return rule ? { sampled, rate, rule } : { sampled, rate }
+}
+
+/**
+ * Record a sampling decision in the notice context.
+ * Notices reported at the full rate are left untouched.
+ */
+export function withSamplingContext(
+  context: Record<string, unknown> | undefined,
+  decision: SamplingDecision
+): Record<string, unknown> | undefined {
+  if (decision.rate >= 1) return context
+
+  return {
+    ...context,
+    sampling: decision.rule
+      ? { rate: decision.rate, rule: decision.rule }
+      : { rate: decision.rate },
+  }
+}
+
+function getRouteMatchers(config: CheckendNextConfig): [string, RouteMatcher][] {
+  let matchers = routeMatchers.get(config)
+  if (!matchers) {
+    const options = { locales: config.locales }
+    matchers = Object.keys(config.sampleRates || {})
+      .filter((key) => key.startsWith('/'))
+      .map((key): [string, RouteMatcher] => [key, createRouteMatcher([key], options)])
+    routeMatchers.set(config, matchers)
+  }
+  return matchers
+}
@@ -0,0 +1,234 @@
+/**
+ * Value-based PII scrubbing for @checkend/nextjs
+ *
+ * Key-based filtering can't catch secrets embedded in free-form strings such
+ * as error messages. These detectors look at the values themselves.
+ */
+
+/**
+ * Built-in value detectors
+ */
+export type PiiDetector =
+  | 'email'
+  | 'creditCard'
+  | 'jwt'
+  | 'bearer'
+  | 'iban'
+  | 'ipv4'
+  | 'ipv6'
+
+/**
+ * How a detected value is replaced:
+ * - `mask` replaces it with a `[FILTERED:<detector>]` label
+ * - `hash` replaces it with a short, stable hash so occurrences can be correlated
+ *   (not a cryptographic hash - don't rely on it to protect low-entropy values)
+ * - `drop` removes it; a string consisting only of the value is omitted entirely
+ */
+export type ScrubStrategy = 'mask' | 'hash' | 'drop'
+
+export interface ScrubValuesConfig {
+  /**
+   * Detectors to run
+   * @default all detectors
+   */
+  detectors?: PiiDetector[]
+
+  /**
+   * Replacement strategy for detected values
+   * @default 'mask'
+   */
+  strategy?: ScrubStrategy
+
+  /**
+   * Per-detector strategy overrides
+   */
+  strategies?: Partial<Record<PiiDetector, ScrubStrategy>>
+}
+
+/**
+ * A function scrubbing a string. Returns undefined when the whole string was dropped.
+ */
+export type ValueScrubber = (value: string) => string | undefined
+
+export const PII_DETECTORS: readonly PiiDetector[] = [
+  // Bearer runs before jwt so "Bearer <jwt>" is reported as a bearer token
+  'bearer',
+  'jwt',
+  'email',
+  'creditCard',
+  'iban',
+  'ipv4',
+  'ipv6',
+]
+
+interface Detector {
+  pattern: RegExp
+  validate?: (match: string, input: string, offset: number) => boolean
+}
+
+const DETECTORS: Record<PiiDetector, Detector> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  creditCard: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => isLuhnValid(match.replace(/\D/g, '')),
+  },
+  jwt: {
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  bearer: {
+    pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+  },
+  iban: {
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: (match) => isIbanValid(match.replace(/ /g, '')),
+  },
+  ipv4: {
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g,
+  },
+  ipv6: {
+    // Candidates are runs of hex digits and colons, validated below.
+    // Lookbehind is avoided so the pattern parses in older Safari.
+    pattern: /[A-Fa-f0-9:]*:[A-Fa-f0-9:]*/g,
+    validate: (match, input, offset) =>
+      !/[A-Za-z0-9]/.test(input.charAt(offset - 1)) &&
+      !/[A-Za-z0-9]/.test(input.charAt(offset + match.length)) &&
+      isIpv6Valid(match),
+  },
+}
+
+/**
+ * Create a scrubber for the given configuration.
+ */
+export function createValueScrubber(config: ScrubValuesConfig = {}): ValueScrubber {
+  const detectors = PII_DETECTORS.filter(
+    (name) => !config.detectors || config.detectors.includes(name)
+  )
+  const defaultStrategy = config.strategy || 'mask'
+
+  return (value: string) => {
+    let result = value
+    let dropped = false
+
+    for (const name of detectors) {
+      const { pattern, validate } = DETECTORS[name]
+      const strategy = config.strategies?.[name] || defaultStrategy
+
+      result = result.replace(pattern, (match: string, ...rest: unknown[]) => {
+        // With no capture groups, replace() passes (match, offset, input)
+        const offset = rest[0] as number
+        const input = rest[1] as string
+        if (validate && !validate(match, input, offset)) return match
+
+        if (strategy === 'drop') {
+          dropped = true
+          return ''
+        }
+        if (strategy === 'hash') return `[${name}:${hashValue(match)}]`
+        return `[FILTERED:${name}]`
+      })
+    }
+
+    if (dropped && result.trim() === '') return undefined
+    return result
+  }
+}
+
+/**
+ * Copy an error with its message and stack passed through a scrubber.
+ * The original error is returned when nothing changed.
+ */
+export function scrubError<T extends Error>(error: T, scrub: ValueScrubber): T {
+  const message = scrub(error.message) ?? ''
+  if (message === error.message) return error
+
+  const scrubbed = Object.create(Object.getPrototypeOf(error)) as T
+  Object.assign(scrubbed, error)
+  Object.defineProperty(scrubbed, 'message', {
+    value: message,
+    writable: true,
+    configurable: true,
+  })
+  Object.defineProperty(scrubbed, 'name', {
+    value: error.name,
+    writable: true,
+    configurable: true,
+  })
+  if ('cause' in error) {
+    Object.defineProperty(scrubbed, 'cause', {
+      value: error.cause,
+      writable: true,
+      configurable: true,
+    })
+  }
+  if (error.stack) {
+    Object.defineProperty(scrubbed, 'stack', {
+      value: scrub(error.stack) ?? '',
+      writable: true,
+      configurable: true,
+    })
+  }
+  return scrubbed
+}
+
+function isLuhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false
+
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function isIbanValid(iban: string): boolean {
+  if (iban.length < 15 || iban.length > 34) return false
+
+  // Move the country code and check digits to the end, letters become 10..35
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55)
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder === 1
+}
+
+function isIpv6Valid(candidate: string): boolean {
+  const compressed = candidate.split('::')
+  if (compressed.length > 2) return false
+
+  const groups = (part: string) => (part === '' ? [] : part.split(':'))
+  const head = groups(compressed[0])
+  const tail = compressed.length === 2 ? groups(compressed[1]) : []
+  const all = [...head, ...tail]
+
+  if (all.length === 0) return false
+  if (!all.every((group) => /^[A-Fa-f0-9]{1,4}$/.test(group))) return false
+  if (compressed.length === 2) return all.length <= 7
+  return all.length === 8
+}
+
+/**
+ * Short non-cryptographic hash (cyrb53) that works in every runtime
+ */
+function hashValue(value: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
@@ -0,0 +1,268 @@
+/**
+ * Serializer for @checkend/nextjs
+ *
+ * Turns arbitrary values into plain JSON-safe data: cycles are cut, exotic
+ * types get a readable representation, and arrays, objects, strings and the
+ * total output size are bounded.
+ */
+
+import { stripUndefined } from './utils'
+
+export interface SerializeOptions {
+  /**
+   * Maximum nesting depth, deeper values become '[MAX_DEPTH]'
+   * @default 10
+   */
+  maxDepth?: number
+
+  /**
+   * Maximum string length before truncation
+   * @default 10000
+   */
+  maxStringLength?: number
+
+  /**
+   * Maximum number of array/Set/Map items kept
+   * @default 100
+   */
+  maxArrayLength?: number
+
+  /**
+   * Maximum number of keys kept per object
+   * @default 100
+   */
+  maxObjectKeys?: number
+
+  /**
+   * Approximate budget for the whole serialized output, in bytes.
+   * Values past the budget become '[TRUNCATED]'.
+   * @default 102400
+   */
+  maxBytes?: number
+
+  /**
+   * Return true to replace the value of a key with '[FILTERED]'.
+   * `path` holds the keys from the root, ending with `key`.
+   */
+  filterKey?: (key: string, path: readonly string[]) => boolean
+
+  /**
+   * Allowlist check. Keys that aren't allowed are replaced with '[FILTERED]',
+   * containers that may hold allowed keys are descended into.
+   */
+  allowKey?: (key: string, path: readonly string[]) => 'allow' | 'descend' | 'deny'
+
+  /**
+   * Path of the value being serialized within the notice, used as the
+   * prefix of the paths passed to filterKey and allowKey (e.g. ['request', 'headers'])
+   */
+  path?: string[]
+
+  /**
+   * Transform string values. Returning undefined omits the value.
+   */
+  transformString?: (value: string) => string | undefined
+}
+
+export const DEFAULT_SERIALIZE_OPTIONS = {
+  maxDepth: 10,
+  maxStringLength: 10000,
+  maxArrayLength: 100,
+  maxObjectKeys: 100,
+  maxBytes: 100 * 1024,
+}
+
+// Marker for values that should be left out of the parent
+const OMIT = Symbol('omit')
+
+/**
+ * Serialize any value into JSON-safe data.
+ */
+export function serialize(value: unknown, options: SerializeOptions = {}): unknown {
+  const limits = { ...DEFAULT_SERIALIZE_OPTIONS, ...stripUndefined(options) }
+  const path = [...(options.path || [])]
+  // Set while inside a subtree the allowlist fully allows
+  let allowed = !limits.allowKey
+  const ancestors: object[] = []
+  let bytes = 0
+
+  function visit(value: unknown, depth: number): unknown {
+    if (bytes > limits.maxBytes) return '[TRUNCATED]'
+
+    if (value === null || value === undefined) {
+      bytes += 4
+      return value
+    }
+
+    switch (typeof value) {
+      case 'string':
+        return visitString(value)
+      case 'number':
+        bytes += 8
+        return Number.isFinite(value) ? value : String(value)
+      case 'boolean':
+        bytes += 5
+        return value
+      case 'bigint':
+        return visitString(`${value.toString()}n`)
+      case 'symbol':
+        return visitString(value.toString())
+      case 'function':
+        return visitString(`[Function: ${value.name || '<anonymous>'}]`)
+    }
+
+    if (depth > limits.maxDepth) return '[MAX_DEPTH]'
+
+    const object = value as object
+    if (ancestors.includes(object)) return '[Circular]'
+
+    ancestors.push(object)
+    try {
+      return visitObject(object, depth)
+    } finally {
+      ancestors.pop()
+    }
+  }
+
+  function visitString(value: string): unknown {
+    const transformed = limits.transformString ? limits.transformString(value) : value
+    if (transformed === undefined) return OMIT
+
+    const result =
+      transformed.length > limits.maxStringLength
+        ? transformed.slice(0, limits.maxStringLength) + '...[TRUNCATED]'
+        : transformed
+    bytes += result.length + 2
+    return result
+  }
+
+  function visitObject(object: object, depth: number): unknown {
+    if (object instanceof Date) {
+      return visitString(isNaN(object.getTime()) ? '[Invalid Date]' : object.toISOString())
+    }
+
+    if (object instanceof RegExp) return visitString(object.toString())
+
+    if (object instanceof Error) return visitError(object, depth)
+
+    if (ArrayBuffer.isView(object) || object instanceof ArrayBuffer) {
+      const length = object instanceof DataView || object instanceof ArrayBuffer
+        ? object.byteLength
+        : (object as unknown as ArrayLike<unknown>).length
+      return visitString(`[${object.constructor.name}(${length})]`)
+    }
+
+    if (Array.isArray(object)) return visitItems(object, depth)
+
+    if (object instanceof Set) return visitItems([...object], depth)
+
+    if (object instanceof Map) {
+      return visitEntries(
+        [...object].map(([key, val]) => [typeof key === 'string' ? key : String(key), val]),
+        depth
+      )
+    }
+
+    // URL, Decimal, Moment and friends know how to represent themselves
+    const toJSON = (object as { toJSON?: unknown }).toJSON
+    if (typeof toJSON === 'function') {
+      try {
+        return visit(toJSON.call(object), depth + 1)
+      } catch {
+        // Fall through to the generic representation
+      }
+    }
+
+    const entries = Object.entries(object)
+    const name = className(object)
+    if (entries.length === 0 && name) return visitString(`[${name}]`)
+
+    return visitEntries(entries, depth)
+  }
+
+  function visitError(error: Error, depth: number): unknown {
+    const entries: [string, unknown][] = [
+      ['name', error.name],
+      ['message', error.message],
+      ['stack', error.stack],
+    ]
+    if ('cause' in error && error.cause !== undefined) entries.push(['cause', error.cause])
+    for (const [key, val] of Object.entries(error)) {
+      if (!['name', 'message', 'stack', 'cause'].includes(key)) entries.push([key, val])
+    }
+    return visitEntries(entries, depth)
+  }
+
+  function visitItems(items: unknown[], depth: number): unknown[] {
+    const result: unknown[] = []
+    for (const item of items.slice(0, limits.maxArrayLength)) {
+      const serialized = visit(item, depth + 1)
+      if (serialized !== OMIT) result.push(serialized)
+    }
+    if (items.length > limits.maxArrayLength) {
+      result.push(`[${items.length - limits.maxArrayLength} more items]`)
+    }
+    bytes += 2
+    return result
+  }
+
+  function visitEntries(entries: [string, unknown][], depth: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [key, val] of entries.slice(0, limits.maxObjectKeys)) {
+      bytes += key.length + 3
+      path.push(key)
+      try {
+        if (limits.filterKey?.(key, path)) {
+          result[key] = '[FILTERED]'
+          continue
+        }
+
+        const wasAllowed = allowed
+        if (!allowed) {
+          const decision = limits.allowKey!(key, path)
+          const isContainer = typeof val === 'object' && val !== null
+          if (decision === 'deny' || (decision === 'descend' && !isContainer)) {
+            result[key] = '[FILTERED]'
+            continue
+          }
+          allowed = decision === 'allow'
+        }
+
+        try {
+          const serialized = visit(val, depth + 1)
+          if (serialized !== OMIT) result[key] = serialized
+        } finally {
+          allowed = wasAllowed
+        }
+      } finally {
+        path.pop()
+      }
+    }
+    if (entries.length > limits.maxObjectKeys) {
+      result['[TRUNCATED]'] = `${entries.length - limits.maxObjectKeys} more keys`
+    }
+    bytes += 2
+    return result
+  }
+
+  const result = visit(value, 0)
+  return result === OMIT ? undefined : result
+}
+
+/**
+ * Serialize a value while keeping its static type, for payload fields that
+ * are already the right shape but may contain anything (e.g. after beforeSend).
+ */
+export function serializeAs<T>(value: T, options?: SerializeOptions): T {
+  return serialize(value, options) as T
+}
+
+/**
+ * Name of a class instance's constructor, or undefined for plain objects
+ */
+function className(object: object): string | undefined {
+  const proto = Object.getPrototypeOf(object)
+  if (proto === null || proto === Object.prototype) return undefined
+  const name = proto.constructor?.name
+  return typeof name === 'string' && name !== 'Object' ? name : undefined
+}
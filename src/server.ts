@@ -4,15 +4,58 @@
  */
 
 import type { CheckendUser } from './config'
-import { getConfig, isInitialized, shouldIgnoreException, applyBeforeSend } from './config'
+import { getConfig, isInitialized, getSdkIgnoreOptions } from './config'
+import {
+  processError,
+  prepareNotice,
+  flushPipeline,
+  pendingCount,
+  sanitizeGlobalContext,
+  sanitizeGlobalUser,
+  type RequestLike,
+} from './pipeline'
+import { toSdkNotifyOptions } from './event'
+import { detectRevision, setBuiltinModuleLoader } from './app-info'
+import { registerShutdownHandlers } from './shutdown'
+import { runWithBreadcrumbs } from './breadcrumbs'
+import { instrumentFetch } from './fetch-instrumentation'
+
+export { addBreadcrumb } from './breadcrumbs'
+
+/**
+ * Options accepted by notify() and notifySync()
+ */
+export interface NotifyOptions {
+  context?: Record<string, unknown>
+  /** Request the error happened in; its URL, method and filtered headers are sent */
+  request?: RequestLike
+  user?: CheckendUser
+  tags?: string[]
+  fingerprint?: string
+  /** Route the error happened on, used for per-route sample rates */
+  route?: string
+  /**
+   * The error is rethrown to Next.js: the notice waits for onRequestError
+   * to report it and is sent once, with the request and digest
+   */
+  rethrown?: boolean
+}
 
 // Re-export types
 export type { CheckendUser }
 
+// process.getBuiltinModule() is new in Node.js 20.16 and 22.3; before that,
+// require() is there in Next.js server bundles
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+setBuiltinModuleLoader((id) => require(`node:${id}`))
+
 // Import the Node SDK
 let nodeSdk: typeof import('@checkend/node') | null = null
 let initialized = false
 
+// Notices handed to the Node SDK since its last flush
+let unflushed = 0
+
 function getNodeSdk(): typeof import('@checkend/node') {
   if (!nodeSdk) {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -50,24 +93,35 @@ export function initServer(): void {
       apiKey: config.apiKey,
       endpoint: config.endpoint,
       environment: config.environment,
-      ignoredExceptions: config.ignoredExceptions,
-      filterKeys: config.filterKeys,
+      appName: config.appName,
+      revision: config.revision || detectRevision(),
+      ...getSdkIgnoreOptions('server'),
+      // Paths, globs and RegExps are applied by sanitize() before the SDK sees the data
+      filterKeys: config.filterKeys?.filter((key): key is string => typeof key === 'string'),
       debug: config.debug,
       // Don't capture process-level errors - Next.js handles these
       captureUncaughtExceptions: false,
       captureUnhandledRejections: false,
-      beforeNotify: config.beforeSend
-        ? [
-            (notice: unknown) => {
-              const result = applyBeforeSend(notice as any)
-              return result !== null
-            },
-          ]
-        : undefined,
     })
 
     initialized = true
 
+    if (config.flushOnShutdown !== false) {
+      registerShutdownHandlers({
+        flush,
+        pending: pendingNotices,
+        timeout: config.shutdownTimeout ?? 5000,
+        events: Array.isArray(config.flushOnShutdown) ? config.flushOnShutdown : undefined,
+      })
+    }
+
+    if (config.instrumentFetch) {
+      instrumentFetch({
+        ...(typeof config.instrumentFetch === 'object' ? config.instrumentFetch : {}),
+        notify,
+      })
+    }
+
     if (config.debug) {
       console.log('[Checkend] Server SDK initialized')
     }
@@ -77,44 +131,28 @@ export function initServer(): void {
 }
 
 /**
- * Report an error to Checkend (async, non-blocking)
+ * Report an error to Checkend (async, non-blocking).
+ * Identical errors within `dedupeWindow` are reported once, followed by a
+ * single notice carrying the duplicate count.
  */
-export function notify(
-  error: Error,
-  options?: {
-    context?: Record<string, unknown>
-    user?: CheckendUser
-    tags?: string[]
-    fingerprint?: string
-  }
-): void {
-  if (shouldIgnoreException(error)) return
-
-  try {
-    const sdk = getNodeSdk()
-    sdk.notify(error, options)
-  } catch (e) {
-    console.error('[Checkend] Failed to notify:', e)
-  }
+export function notify(error: Error, options?: NotifyOptions): void {
+  void processError(error, { ...options, runtime: 'server' }, (notice) => {
+    getNodeSdk().notify(notice.error, toSdkNotifyOptions(notice.event))
+    unflushed++
+  })
 }
 
 /**
- * Report an error to Checkend (sync, returns promise)
+ * Report an error to Checkend (sync, returns promise).
+ * Always sends, without deduplication.
  */
-export async function notifySync(
-  error: Error,
-  options?: {
-    context?: Record<string, unknown>
-    user?: CheckendUser
-    tags?: string[]
-    fingerprint?: string
-  }
-): Promise<{ id: string } | null> {
-  if (shouldIgnoreException(error)) return null
-
+export async function notifySync(error: Error, options?: NotifyOptions): Promise<{ id: string } | null> {
   try {
+    const notice = await prepareNotice(error, { ...options, runtime: 'server' })
+    if (!notice) return null
+
     const sdk = getNodeSdk()
-    const result = await sdk.notifySync(error, options)
+    const result = await sdk.notifySync(notice.error, toSdkNotifyOptions(notice.event))
     if (result && 'id' in result) {
       return { id: String(result.id) }
     }
@@ -126,25 +164,26 @@ export async function notifySync(
 }
 
 /**
- * Set global context that will be included with all errors
+ * Set global context that will be included with all errors,
+ * filtered like the context passed to notify()
  */
 export function setContext(context: Record<string, unknown>): void {
   try {
     const sdk = getNodeSdk()
-    sdk.setContext(context)
+    sdk.setContext(sanitizeGlobalContext(context))
   } catch (e) {
     console.error('[Checkend] Failed to setContext:', e)
   }
 }
 
 /**
- * Set the current user
+ * Set the current user, restricted to `allowKeys` like the user passed to notify()
  */
 export function setUser(user: CheckendUser | null): void {
   try {
     const sdk = getNodeSdk()
     if (user) {
-      sdk.setUser(user)
+      sdk.setUser(sanitizeGlobalUser(user))
     } else {
       sdk.clear()
     }
@@ -166,15 +205,15 @@ export function clear(): void {
 }
 
 /**
- * Run a function with isolated context (using AsyncLocalStorage)
+ * Run a function with isolated context and breadcrumbs (using AsyncLocalStorage)
  */
 export function runWithContext<T>(fn: () => T): T {
   try {
     const sdk = getNodeSdk()
-    return sdk.runWithContext(fn)
+    return sdk.runWithContext(() => runWithBreadcrumbs(fn))
   } catch (e) {
     console.error('[Checkend] Failed to runWithContext:', e)
-    return fn()
+    return runWithBreadcrumbs(fn)
   }
 }
 
@@ -182,10 +221,22 @@ export function runWithContext<T>(fn: () => T): T {
  * Flush pending notices and wait for them to be sent
  */
 export async function flush(): Promise<void> {
+  // Report pending duplicate counts and wait for beforeSend before draining the queue
+  await flushPipeline()
+
   try {
     const sdk = getNodeSdk()
+    const handed = unflushed
     await sdk.default.flush()
+    unflushed = Math.max(0, unflushed - handed)
   } catch (e) {
     console.error('[Checkend] Failed to flush:', e)
   }
 }
+
+/**
+ * Number of notices reported but not sent yet
+ */
+export function pendingNotices(): number {
+  return pendingCount() + unflushed
+}
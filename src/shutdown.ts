@@ -0,0 +1,123 @@
+/**
+ * Graceful shutdown for @checkend/nextjs
+ *
+ * Containers are sent SIGTERM when they are recycled during a deploy, and
+ * notices still queued at that point would be lost with the process. The
+ * server SDK flushes them on SIGTERM, SIGINT and `beforeExit`, bounded by
+ * `shutdownTimeout`, and reports how many didn't make it.
+ */
+
+import { log } from './config'
+
+export type ShutdownEvent = 'SIGTERM' | 'SIGINT' | 'beforeExit'
+
+export const DEFAULT_SHUTDOWN_EVENTS: readonly ShutdownEvent[] = ['SIGTERM', 'SIGINT', 'beforeExit']
+
+/**
+ * How a bounded flush went
+ */
+export interface FlushResult {
+  /** Whether the flush finished within the timeout */
+  completed: boolean
+  /** Notices still pending when the flush finished or timed out */
+  dropped: number
+}
+
+export interface ShutdownOptions {
+  /** Sends pending notices */
+  flush: () => Promise<void>
+  /** Number of notices not sent yet */
+  pending: () => number
+  /** Maximum time to wait for flush, in milliseconds */
+  timeout: number
+  /** Events to flush on */
+  events?: readonly ShutdownEvent[]
+}
+
+// Removes the handlers of the current registration
+let unregisterCurrent: (() => void) | null = null
+
+/**
+ * Flush, waiting at most `timeout` milliseconds.
+ * Never rejects; a failing flush counts as not completed.
+ */
+export async function flushWithTimeout(
+  flush: () => Promise<void>,
+  pending: () => number,
+  timeout: number
+): Promise<FlushResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout)
+  })
+  const flushed = flush().then(
+    () => true,
+    (e) => {
+      log('error', 'Failed to flush:', e)
+      return false
+    }
+  )
+
+  const completed = await Promise.race([flushed, timedOut])
+  clearTimeout(timer)
+  return { completed, dropped: pending() }
+}
+
+/**
+ * Flush on process shutdown. Replaces any previous registration.
+ *
+ * Signals are raised again once the flush is done when nothing else
+ * listens for them, so the process still exits with the signal.
+ *
+ * @returns A function removing the handlers
+ */
+export function registerShutdownHandlers(options: ShutdownOptions): () => void {
+  unregisterShutdownHandlers()
+  if (typeof process === 'undefined' || typeof process.on !== 'function') return () => {}
+
+  const events = options.events ?? DEFAULT_SHUTDOWN_EVENTS
+  const handlers = new Map<ShutdownEvent, () => void>()
+
+  const unregister = () => {
+    for (const [event, handler] of handlers) process.removeListener(event, handler)
+    handlers.clear()
+    if (unregisterCurrent === unregister) unregisterCurrent = null
+  }
+
+  for (const event of events) {
+    const handler = () => {
+      // Only the first shutdown event flushes
+      unregister()
+
+      void flushWithTimeout(options.flush, options.pending, options.timeout).then((result) => {
+        reportShutdownFlush(event, options.timeout, result)
+        if (event !== 'beforeExit' && process.listenerCount(event) === 0) {
+          process.kill(process.pid, event)
+        }
+      })
+    }
+    handlers.set(event, handler)
+    process.on(event, handler)
+  }
+
+  unregisterCurrent = unregister
+  return unregister
+}
+
+/**
+ * Remove the shutdown handlers, if registered
+ */
+export function unregisterShutdownHandlers(): void {
+  unregisterCurrent?.()
+}
+
+function reportShutdownFlush(event: ShutdownEvent, timeout: number, result: FlushResult): void {
+  if (result.dropped > 0) {
+    const reason = result.completed ? '' : ` (flush timed out after ${timeout}ms)`
+    log('warn', `${result.dropped} notice(s) dropped on ${event}${reason}`)
+  } else if (!result.completed) {
+    log('warn', `Flush on ${event} timed out after ${timeout}ms`)
+  } else {
+    log('debug', `Flushed pending notices on ${event}`)
+  }
+}
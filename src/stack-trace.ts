@@ -0,0 +1,167 @@
+/**
+ * Stack trace parsing for @checkend/nextjs
+ *
+ * Understands the stack formats of V8 (Node.js, Edge runtime, Chrome),
+ * SpiderMonkey (Firefox) and JavaScriptCore (Safari), including eval and
+ * async frames. Bundler paths (`webpack-internal://`, `webpack://`,
+ * `turbopack://`) are turned back into project paths, and every frame is
+ * marked as in-app or not, so grouping and display can focus on our code
+ * rather than `node_modules` and Next.js internals.
+ */
+
+export interface StackFrame {
+  file: string
+  method: string
+  line?: number
+  column?: number
+  /** False for dependencies, Next.js/React internals and runtime builtins */
+  inApp: boolean
+}
+
+// "    at fn (location)" or "    at location"
+const V8_FRAME = /^\s*at (?:(.+?) \((.+)\)|(.+))$/
+
+// "fn@location", "@location", "async*fn@location" (SpiderMonkey, JavaScriptCore)
+const AT_SIGN_FRAME = /^\s*(?:async\*)?(.*?)@(.+)$/
+
+// A bare "file:line:column" (JavaScriptCore frames without a function name)
+const BARE_FRAME = /^\s*(\S+):(\d+):(\d+)$/
+
+// "file:line:column" or "file:line"
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/
+
+// The location an eval was called from, inside a V8 eval frame
+const EVAL_ORIGIN = /([^\s(),]+):(\d+):(\d+)/
+
+// SpiderMonkey eval frames: "file line 10 > eval" or "file line 10 > Function"
+const GECKO_EVAL = /^(.*) line (\d+) > (?:eval|Function)/
+
+const BUNDLER_PREFIXES: RegExp[] = [
+  // webpack-internal:///(app-pages-browser)/./src/app/page.tsx
+  /^webpack-internal:\/\/\/(?:\([^)]*\)\/)?(?:\.\/)?/,
+  // webpack://_N_E/./src/app/page.tsx
+  /^webpack:\/\/[^/]*\/(?:\.\/)?/,
+  // turbopack://[project]/src/app/page.tsx
+  /^turbopack:\/\/(?:\[project\]\/)?/,
+]
+
+const NOT_IN_APP: RegExp[] = [
+  /(^|[\\/])node_modules[\\/]/,
+  /^node:/,
+  /^internal\//,
+  /(^|[\\/])next[\\/]dist[\\/]/,
+  // Next.js runtime and framework chunks
+  /\/_next\/static\/chunks\/(?:framework|main|main-app|webpack|polyfills)[-.]/,
+  /\/_next\/static\/chunks\/(?:react-refresh|turbopack)[-.]/,
+  /(^|[\\/])\.next[\\/]server[\\/](?:vendor-chunks|webpack-runtime)/,
+  // Turbopack runtime and externals
+  /^\[(?:turbopack|externals)\]/,
+  /^(?:native|\[native code\]|<anonymous>|unknown location|index \d+)$/,
+]
+
+/**
+ * Parse a stack trace into frames, skipping lines that aren't frames
+ * (such as the error message V8 puts first).
+ */
+export function parseStackTrace(stack: string | undefined): StackFrame[] {
+  if (!stack) return []
+
+  const frames: StackFrame[] = []
+  for (const line of stack.split('\n')) {
+    const frame = parseStackFrame(line)
+    if (frame) frames.push(frame)
+  }
+  return frames
+}
+
+/**
+ * Parse a single stack trace line, or return null if it isn't a frame.
+ */
+export function parseStackFrame(line: string): StackFrame | null {
+  const v8 = V8_FRAME.exec(line)
+  if (v8) {
+    const method = v8[1] ? v8[1].replace(/^async /, '') : '<anonymous>'
+    return buildFrame(method, parseV8Location(v8[2] ?? v8[3]))
+  }
+
+  const atSign = AT_SIGN_FRAME.exec(line)
+  if (atSign) {
+    const location = parseAtSignLocation(atSign[2])
+    if (location) return buildFrame(atSign[1] || '<anonymous>', location)
+  }
+
+  const bare = BARE_FRAME.exec(line)
+  if (bare) {
+    return buildFrame('<anonymous>', {
+      file: bare[1],
+      line: Number(bare[2]),
+      column: Number(bare[3]),
+    })
+  }
+
+  return null
+}
+
+/**
+ * Turn bundler paths (`webpack-internal://`, `webpack://`, `turbopack://`)
+ * into project-relative paths. Other files are returned unchanged.
+ */
+export function normalizeStackFile(file: string): string {
+  for (const prefix of BUNDLER_PREFIXES) {
+    if (prefix.test(file)) return file.replace(prefix, '')
+  }
+  return file
+}
+
+/**
+ * Whether a file belongs to the application rather than its dependencies,
+ * Next.js or the runtime
+ */
+export function isInAppFile(file: string): boolean {
+  if (!file) return false
+  return !NOT_IN_APP.some((pattern) => pattern.test(file))
+}
+
+type Location = Pick<StackFrame, 'file' | 'line' | 'column'>
+
+function buildFrame(method: string, location: Location): StackFrame {
+  const file = normalizeStackFile(location.file)
+  return {
+    file,
+    method,
+    line: location.line,
+    column: location.column,
+    inApp: isInAppFile(file),
+  }
+}
+
+function parseV8Location(location: string): Location {
+  // "eval at fn (file:1:2), <anonymous>:3:4": report where eval was called
+  if (location.startsWith('eval at ')) {
+    const origin = EVAL_ORIGIN.exec(location)
+    if (origin) {
+      return { file: origin[1], line: Number(origin[2]), column: Number(origin[3]) }
+    }
+  }
+
+  return parseLocation(location) ?? { file: location }
+}
+
+function parseAtSignLocation(location: string): Location | null {
+  if (location === '[native code]') return { file: location }
+
+  const evalFrame = GECKO_EVAL.exec(location)
+  if (evalFrame) return { file: evalFrame[1], line: Number(evalFrame[2]) }
+
+  return parseLocation(location)
+}
+
+function parseLocation(location: string): Location | null {
+  const match = LOCATION.exec(location)
+  if (!match) return null
+  return {
+    file: match[1],
+    line: Number(match[2]),
+    column: match[3] !== undefined ? Number(match[3]) : undefined,
+  }
+}
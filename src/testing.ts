@@ -27,6 +27,9 @@
  */
 
 import { init, reset, type CheckendNextConfig } from './config'
+import type { AppInfo } from './app-info'
+import type { Breadcrumb } from './breadcrumbs'
+import type { ErrorDetails } from './error-chain'
 
 /**
  * A captured notice from Checkend during test mode
@@ -38,6 +41,10 @@ export interface CapturedNotice {
   message: string
   /** Stack trace lines */
   backtrace: string[]
+  /** The error this one was caused by */
+  cause?: ErrorDetails
+  /** Errors collected by an AggregateError */
+  errors?: ErrorDetails[]
   /** Additional context */
   context?: Record<string, unknown>
   /** Request information */
@@ -48,6 +55,12 @@ export interface CapturedNotice {
   tags?: string[]
   /** Custom fingerprint for grouping */
   fingerprint?: string
+  /** The digest Next.js showed in place of the message */
+  digest?: string
+  /** What happened before the error */
+  breadcrumbs?: Breadcrumb[]
+  /** Environment, revision, runtime and host */
+  app?: AppInfo
   /** When the error occurred */
   occurredAt: Date
   /** Runtime where the error was captured */
@@ -79,6 +92,8 @@ export function setup(config?: Partial<CheckendNextConfig>): void {
     endpoint: 'https://test.checkend.io',
     environment: 'test',
     debug: false,
+    // Capture every notice so tests can assert on repeated errors
+    dedupeWindow: 0,
     ...config,
   })
 
@@ -203,6 +218,13 @@ export function findNoticesByRuntime(
   return findNotices((n) => n.runtime === runtime)
 }
 
+/**
+ * Find notices by the Next.js digest shown on the error page.
+ */
+export function findNoticesByDigest(digest: string): CapturedNotice[] {
+  return findNotices((n) => n.digest === digest)
+}
+
 /**
  * Assert that exactly N notices were captured.
  * Throws if the count doesn't match.
@@ -251,9 +273,11 @@ function createMockFetch(): typeof globalThis.fetch {
         if (body) {
           const payload = JSON.parse(typeof body === 'string' ? body : new TextDecoder().decode(body as ArrayBuffer))
 
-          // Determine runtime from URL or context
+          // Determine runtime from the app block, URL or context
           let runtime: 'client' | 'server' | 'edge' = 'server'
-          if (typeof window !== 'undefined') {
+          if (['client', 'server', 'edge'].includes(payload.app?.runtime)) {
+            runtime = payload.app.runtime
+          } else if (typeof window !== 'undefined') {
             runtime = 'client'
           } else if (url.includes('edge') || init?.headers?.toString().includes('edge')) {
             runtime = 'edge'
@@ -263,11 +287,24 @@ function createMockFetch(): typeof globalThis.fetch {
             errorClass: payload.error_class || payload.errorClass || 'Error',
             message: payload.message || '',
             backtrace: payload.backtrace || [],
+            cause: payload.cause && toErrorDetails(payload.cause),
+            errors: payload.errors?.map(toErrorDetails),
             context: payload.context,
             request: payload.request,
             user: payload.user,
             tags: payload.tags,
             fingerprint: payload.fingerprint,
+            digest: payload.digest ?? payload.context?.digest,
+            breadcrumbs: payload.breadcrumbs ?? payload.context?.breadcrumbs,
+            app: payload.app && {
+              environment: payload.app.environment,
+              revision: payload.app.revision,
+              appName: payload.app.app_name,
+              nextVersion: payload.app.next_version,
+              runtime,
+              hostname: payload.app.hostname,
+              region: payload.app.region,
+            },
             occurredAt: new Date(),
             runtime,
           }
@@ -297,6 +334,17 @@ function createMockFetch(): typeof globalThis.fetch {
   }
 }
 
+// Related errors are sent in snake_case
+function toErrorDetails(payload: Record<string, any>): ErrorDetails {
+  return {
+    errorClass: payload.error_class || payload.errorClass || 'Error',
+    message: payload.message || '',
+    backtrace: payload.backtrace || [],
+    cause: payload.cause && toErrorDetails(payload.cause),
+    errors: payload.errors?.map(toErrorDetails),
+  }
+}
+
 /**
  * Manually add a notice for testing purposes.
  * Useful when you want to simulate errors without going through the SDK.
@@ -0,0 +1,150 @@
+/**
+ * Thrown value normalization for @checkend/nextjs
+ *
+ * JavaScript can throw anything: strings, plain objects, `Response`
+ * objects, or errors from another realm (iframes, `vm` contexts) that fail
+ * `instanceof Error`. `toError()` turns any thrown value into an Error so it
+ * can be reported; values that aren't errors become a `ThrownValueError`
+ * carrying the original value, which is sent as `context.thrownValue`.
+ */
+
+/**
+ * Error standing in for a thrown value that isn't an error
+ */
+export class ThrownValueError extends Error {
+  /** The value that was thrown */
+  readonly thrownValue: unknown
+
+  constructor(thrownValue: unknown) {
+    super(describeThrownValue(thrownValue))
+    this.name = 'ThrownValueError'
+    this.thrownValue = thrownValue
+  }
+}
+
+/**
+ * Number of keys listed in the message for thrown objects
+ */
+const MAX_LISTED_KEYS = 10
+
+// Errors made for thrown objects, so a value caught by a wrapper and again
+// by onRequestError is one error, reported once
+const converted = new WeakMap<object, Error>()
+
+/**
+ * Turn any thrown value into an Error.
+ * Errors are returned as they are, errors from another realm are copied into
+ * an Error of this realm, and other values are wrapped in a ThrownValueError
+ * whose stack starts where toError() was called. The same object always
+ * gives the same Error.
+ */
+export function toError(value: unknown): Error {
+  if (value instanceof Error) return value
+
+  const isObject = (typeof value === 'object' && value !== null) || typeof value === 'function'
+  const cached = isObject ? converted.get(value as object) : undefined
+  if (cached) return cached
+
+  let error: Error
+  if (isForeignError(value)) {
+    error = copyForeignError(value)
+  } else {
+    error = new ThrownValueError(value)
+    // Start the stack at the caller rather than in here
+    const capture = (Error as { captureStackTrace?: (target: object, fn: unknown) => void })
+      .captureStackTrace
+    capture?.(error, toError)
+  }
+
+  if (isObject) converted.set(value as object, error)
+  return error
+}
+
+/**
+ * Whether the error stands in for a thrown primitive (a string, number...).
+ * Its stack is where it was caught rather than where it was thrown, so it
+ * can't tell two reports of the same throw apart.
+ */
+export function isThrownPrimitive(error: Error): boolean {
+  if (!(error instanceof ThrownValueError)) return false
+  const value = error.thrownValue
+  return (typeof value !== 'object' || value === null) && typeof value !== 'function'
+}
+
+/**
+ * What identifies the throw behind an error: the value itself for a thrown
+ * primitive, which gets a new ThrownValueError each time it's caught, and
+ * the error otherwise
+ */
+export function thrownIdentity(error: Error): unknown {
+  return isThrownPrimitive(error) ? (error as ThrownValueError).thrownValue : error
+}
+
+/**
+ * The thrown value to send with a notice: Responses are reduced to their
+ * status and URL, other values are sent as they are and serialized later
+ */
+export function thrownValueContext(error: Error): unknown {
+  if (!(error instanceof ThrownValueError)) return undefined
+
+  const value = error.thrownValue
+  if (isResponse(value)) {
+    return {
+      type: 'Response',
+      status: value.status,
+      statusText: value.statusText,
+      url: value.url,
+      redirected: value.redirected,
+    }
+  }
+  return value
+}
+
+function describeThrownValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value === null || value === undefined) return `${value} was thrown`
+  if (typeof value !== 'object') return `${typeof value} was thrown: ${String(value)}`
+
+  if (isResponse(value)) {
+    const status = [value.status, value.statusText].filter(Boolean).join(' ')
+    return `Response was thrown: ${status}${value.url ? ` (${value.url})` : ''}`
+  }
+
+  const message = (value as { message?: unknown }).message
+  if (typeof message === 'string' && message) return message
+
+  const name = (value as object).constructor?.name || 'Object'
+  const keys = Object.keys(value)
+  if (keys.length === 0) return `${name} was thrown`
+
+  const listed = keys.slice(0, MAX_LISTED_KEYS).join(', ')
+  const more = keys.length > MAX_LISTED_KEYS ? ', ...' : ''
+  return `${name} was thrown with keys: ${listed}${more}`
+}
+
+// Errors from another realm fail instanceof but keep their tag and shape
+function isForeignError(value: unknown): value is Error {
+  if (typeof value !== 'object' || value === null) return false
+  if (Object.prototype.toString.call(value) === '[object Error]') return true
+  const candidate = value as Partial<Error>
+  return (
+    typeof candidate.name === 'string' &&
+    typeof candidate.message === 'string' &&
+    typeof candidate.stack === 'string'
+  )
+}
+
+function copyForeignError(value: Error): Error {
+  const error = new Error(String(value.message ?? ''))
+  Object.assign(error, value)
+  for (const key of ['name', 'stack', 'cause'] as const) {
+    if (value[key] !== undefined) {
+      Object.defineProperty(error, key, { value: value[key], writable: true, configurable: true })
+    }
+  }
+  return error
+}
+
+function isResponse(value: unknown): value is Response {
+  return typeof Response !== 'undefined' && value instanceof Response
+}
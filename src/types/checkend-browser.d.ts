@@ -8,9 +8,13 @@ declare module '@checkend/browser' {
     apiKey: string
     endpoint?: string
     environment?: string
+    appName?: string
+    revision?: string
     ignoredExceptions?: (string | RegExp)[]
     filterKeys?: string[]
     debug?: boolean
+    captureUncaughtExceptions?: boolean
+    captureUnhandledRejections?: boolean
     beforeNotify?: Array<(notice: unknown) => boolean>
   }
 
@@ -8,6 +8,8 @@ declare module '@checkend/node' {
     apiKey: string
     endpoint?: string
     environment?: string
+    appName?: string
+    revision?: string
     ignoredExceptions?: (string | RegExp)[]
     filterKeys?: string[]
     debug?: boolean
@@ -0,0 +1,37 @@
+/**
+ * Small helpers shared by @checkend/nextjs modules
+ */
+
+/**
+ * Copy an object without its undefined properties, so they don't
+ * override defaults when spread
+ */
+export function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, val]) => val !== undefined)
+  ) as T
+}
+
+/**
+ * Copy a RegExp without the `g` and `y` flags, whose `lastIndex` state
+ * would make test() alternate between calls
+ */
+export function statelessRegExp(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+}
+
+/**
+ * Escape a string for use as a literal in a RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Drop the query, hash and trailing slash from a path
+ */
+export function normalizePath(path: string): string {
+  const pathname = path.split(/[?#]/)[0] || '/'
+  if (pathname.length > 1 && pathname.endsWith('/')) return pathname.slice(0, -1)
+  return pathname
+}
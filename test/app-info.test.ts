@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import {
+  detectRevision,
+  getAppInfo,
+  getBuiltinModule,
+  setBuiltinModuleLoader,
+} from '../src/app-info'
+
+describe('app info', () => {
+  beforeEach(() => {
+    reset()
+    for (const name of ['VERCEL_GIT_COMMIT_SHA', 'GITHUB_SHA', 'SOURCE_VERSION', 'VERCEL_REGION']) {
+      vi.stubEnv(name, '')
+    }
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('detectRevision', () => {
+    it('reads common CI and hosting variables in order', () => {
+      expect(detectRevision({ GITHUB_SHA: 'gh', VERCEL_GIT_COMMIT_SHA: 'vercel' })).toBe('vercel')
+      expect(detectRevision({ GITHUB_SHA: 'gh' })).toBe('gh')
+      expect(detectRevision({ SOURCE_VERSION: 'heroku' })).toBe('heroku')
+    })
+
+    it('ignores empty values', () => {
+      expect(detectRevision({ VERCEL_GIT_COMMIT_SHA: '', GITHUB_SHA: 'gh' })).toBe('gh')
+      expect(detectRevision({})).toBeUndefined()
+    })
+  })
+
+  describe('getAppInfo', () => {
+    it('uses configured values', () => {
+      vi.stubEnv('GITHUB_SHA', 'detected')
+      init({ apiKey: 'test-key', environment: 'staging', revision: 'abc123', appName: 'shop' })
+
+      expect(getAppInfo('server')).toMatchObject({
+        environment: 'staging',
+        revision: 'abc123',
+        appName: 'shop',
+        runtime: 'server',
+      })
+    })
+
+    it('detects the revision, environment and region', () => {
+      vi.stubEnv('GITHUB_SHA', 'detected')
+      vi.stubEnv('VERCEL_REGION', 'iad1')
+      vi.stubEnv('NODE_ENV', 'production')
+      init({ apiKey: 'test-key' })
+
+      expect(getAppInfo('edge')).toMatchObject({
+        environment: 'production',
+        revision: 'detected',
+        runtime: 'edge',
+        region: 'iad1',
+      })
+    })
+
+    it('includes the Next.js version and hostname on the server', () => {
+      init({ apiKey: 'test-key' })
+      const info = getAppInfo('server')
+
+      expect(info.nextVersion).toMatch(/^\d+\.\d+\.\d+/)
+      expect(typeof info.hostname).toBe('string')
+    })
+
+    it('leaves out undefined values', () => {
+      init({ apiKey: 'test-key' })
+
+      expect(Object.values(getAppInfo('client'))).not.toContain(undefined)
+      expect(getAppInfo('client')).not.toHaveProperty('hostname')
+    })
+  })
+
+  describe('getBuiltinModule', () => {
+    it('uses the loader set by the server entry before Node.js 20.16', () => {
+      const runtime = process as { getBuiltinModule?: unknown }
+      const original = runtime.getBuiltinModule
+      const os = { hostname: () => 'web-1' }
+      runtime.getBuiltinModule = undefined
+      setBuiltinModuleLoader((id) => (id === 'os' ? os : undefined))
+      try {
+        expect(getBuiltinModule('os')).toBe(os)
+        expect(getBuiltinModule('fs')).toBeUndefined()
+      } finally {
+        runtime.getBuiltinModule = original
+      }
+    })
+  })
+})
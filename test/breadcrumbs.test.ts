@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { init, reset } from '../src/config'
+import {
+  addBreadcrumb,
+  getBreadcrumbs,
+  clearBreadcrumbs,
+  runWithBreadcrumbs,
+  DEFAULT_MAX_BREADCRUMBS,
+} from '../src/breadcrumbs'
+
+describe('breadcrumbs', () => {
+  beforeEach(() => {
+    reset()
+    init({ apiKey: 'test-key' })
+    clearBreadcrumbs()
+  })
+
+  it('records breadcrumbs with a level and timestamp', () =>
+    runWithBreadcrumbs(() => {
+      addBreadcrumb({ category: 'route', message: 'GET /api/users', data: { method: 'GET' } })
+      addBreadcrumb({ category: 'auth', message: 'Session expired', level: 'warning' })
+
+      const breadcrumbs = getBreadcrumbs()
+      expect(breadcrumbs).toMatchObject([
+        { category: 'route', message: 'GET /api/users', level: 'info', data: { method: 'GET' } },
+        { category: 'auth', message: 'Session expired', level: 'warning' },
+      ])
+      expect(new Date(breadcrumbs[0].timestamp).toISOString()).toBe(breadcrumbs[0].timestamp)
+    }))
+
+  it('keeps the last maxBreadcrumbs', () =>
+    runWithBreadcrumbs(() => {
+      reset()
+      init({ apiKey: 'test-key', maxBreadcrumbs: 3 })
+
+      for (let i = 1; i <= 5; i++) addBreadcrumb({ category: 'step', message: `step ${i}` })
+
+      expect(getBreadcrumbs().map((crumb) => crumb.message)).toEqual(['step 3', 'step 4', 'step 5'])
+    }))
+
+  it('keeps 40 by default and none when maxBreadcrumbs is 0', () =>
+    runWithBreadcrumbs(() => {
+      for (let i = 0; i < 50; i++) addBreadcrumb({ category: 'step', message: String(i) })
+      expect(getBreadcrumbs()).toHaveLength(DEFAULT_MAX_BREADCRUMBS)
+
+      reset()
+      init({ apiKey: 'test-key', maxBreadcrumbs: 0 })
+      clearBreadcrumbs()
+      addBreadcrumb({ category: 'step', message: 'ignored' })
+      expect(getBreadcrumbs()).toEqual([])
+    }))
+
+  it('gives every scope its own buffer, across awaits', async () => {
+    const requests = ['a', 'b'].map((id) =>
+      runWithBreadcrumbs(async () => {
+        addBreadcrumb({ category: 'route', message: `request ${id}` })
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        addBreadcrumb({ category: 'db', message: `query ${id}` })
+        return getBreadcrumbs().map((crumb) => crumb.message)
+      })
+    )
+
+    expect(await Promise.all(requests)).toEqual([
+      ['request a', 'query a'],
+      ['request b', 'query b'],
+    ])
+  })
+
+  it('drops breadcrumbs added outside a scope, which could belong to any request', async () => {
+    addBreadcrumb({ category: 'fetch', message: 'GET https://api.example.com/users 200' })
+
+    expect(getBreadcrumbs()).toEqual([])
+    expect(await runWithBreadcrumbs(async () => getBreadcrumbs())).toEqual([])
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getConfig, init, isInitialized, reset } from '../src/config'
+import { withCheckendBuild, initBuild, getBuildId, isBuildPhase } from '../src/integrations/build'
+import { notify, flush, initServer } from '../src/server'
+
+vi.mock('../src/server', () => ({
+  notify: vi.fn(),
+  initServer: vi.fn(),
+  flush: vi.fn(() => Promise.resolve()),
+  pendingNotices: () => 0,
+}))
+
+describe('build-time capture', () => {
+  beforeEach(() => {
+    reset()
+    vi.clearAllMocks()
+    vi.stubEnv('NEXT_PHASE', 'phase-production-build')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('detects next build', () => {
+    expect(isBuildPhase()).toBe(true)
+    vi.stubEnv('NEXT_PHASE', 'phase-production-server')
+    expect(isBuildPhase()).toBe(false)
+  })
+
+  it('reads the build id Next.js wrote', () => {
+    const distDir = mkdtempSync(join(tmpdir(), 'checkend-build-'))
+    writeFileSync(join(distDir, 'BUILD_ID'), 'abc123\n')
+
+    expect(getBuildId(distDir)).toBe('abc123')
+    expect(getBuildId(join(distDir, 'missing'))).toBeUndefined()
+  })
+
+  it('reads BUILD_ID once Next.js has written it', () => {
+    const distDir = mkdtempSync(join(tmpdir(), 'checkend-build-'))
+
+    // generateStaticParams runs before Next.js writes BUILD_ID
+    expect(getBuildId(distDir)).toBeUndefined()
+    writeFileSync(join(distDir, 'BUILD_ID'), 'def456\n')
+    expect(getBuildId(distDir)).toBe('def456')
+  })
+
+  it('prefers the buildId option and CHECKEND_BUILD_ID over BUILD_ID', () => {
+    const distDir = mkdtempSync(join(tmpdir(), 'checkend-build-'))
+    writeFileSync(join(distDir, 'BUILD_ID'), 'stale\n')
+
+    vi.stubEnv('CHECKEND_BUILD_ID', 'from-env')
+    expect(getBuildId(distDir)).toBe('from-env')
+
+    init({ apiKey: 'test-key', buildId: 'from-config' })
+    expect(getBuildId(distDir)).toBe('from-config')
+  })
+
+  describe('initBuild', () => {
+    it('initializes from CHECKEND_* variables', () => {
+      vi.stubEnv('CHECKEND_API_KEY', 'build-key')
+      vi.stubEnv('CHECKEND_ENVIRONMENT', 'ci')
+
+      expect(initBuild()).toBe(true)
+      expect(getConfig()).toMatchObject({ apiKey: 'build-key', environment: 'ci' })
+      expect(initServer).toHaveBeenCalled()
+    })
+
+    it('does nothing outside the build or without an API key', () => {
+      vi.stubEnv('CHECKEND_API_KEY', '')
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(initBuild()).toBe(false)
+      expect(warn).toHaveBeenCalled()
+
+      vi.stubEnv('NEXT_PHASE', '')
+      expect(initBuild({ apiKey: 'test-key' })).toBe(false)
+      expect(isInitialized()).toBe(false)
+      warn.mockRestore()
+    })
+  })
+
+  describe('withCheckendBuild', () => {
+    it('reports, flushes and rethrows errors during the build', async () => {
+      init({ apiKey: 'test-key' })
+      const error = new Error('CMS unavailable')
+      const generateMetadata = withCheckendBuild(
+        async (_props: { params: Promise<{ slug: string }> }) => {
+          throw error
+        },
+        { page: '/blog/[slug]', name: 'generateMetadata', tags: ['cms'] }
+      )
+
+      await expect(generateMetadata({ params: Promise.resolve({ slug: 'hello' }) })).rejects.toBe(
+        error
+      )
+      expect(notify).toHaveBeenCalledWith(error, {
+        context: {
+          phase: 'build',
+          page: '/blog/[slug]',
+          buildId: undefined,
+          function: 'generateMetadata',
+          params: { slug: 'hello' },
+        },
+        tags: ['build', 'cms'],
+        route: '/blog/[slug]',
+      })
+      expect(flush).toHaveBeenCalled()
+    })
+
+    it('leaves control-flow errors alone', async () => {
+      init({ apiKey: 'test-key' })
+      const bailout = Object.assign(new Error('Dynamic server usage'), {
+        digest: 'DYNAMIC_SERVER_USAGE',
+      })
+      const page = withCheckendBuild(() => {
+        throw bailout
+      })
+
+      await expect(page()).rejects.toBe(bailout)
+      expect(notify).not.toHaveBeenCalled()
+    })
+
+    it('calls the function as it is outside the build', async () => {
+      vi.stubEnv('NEXT_PHASE', '')
+      const generateStaticParams = withCheckendBuild(() => {
+        throw new Error('boom')
+      })
+
+      await expect(generateStaticParams()).rejects.toThrow('boom')
+      expect(notify).not.toHaveBeenCalled()
+      expect(isInitialized()).toBe(false)
+    })
+  })
+})
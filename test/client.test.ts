@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import { flushPipeline } from '../src/pipeline'
+
+const sdk = vi.hoisted(() => ({
+  default: { configure: vi.fn() },
+  notify: vi.fn(),
+}))
+
+vi.mock('@checkend/browser', () => sdk)
+
+function dispatch(type: string, properties: Record<string, unknown>): void {
+  window.dispatchEvent(Object.assign(new Event(type), properties))
+}
+
+describe('client', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('window', Object.assign(new EventTarget(), { location: { pathname: '/cart' } }))
+    reset()
+    const beforeSend = (event: { context?: Record<string, unknown> }) => ({
+      ...event,
+      context: { ...event.context, seenByBeforeSend: true },
+    })
+    init({ apiKey: 'test-key', dedupeWindow: 0, beforeSend })
+
+    const { initClient } = await import('../src/client')
+    await initClient()
+  })
+
+  afterAll(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("turns off the browser SDK's own handlers", () => {
+    expect(sdk.default.configure).toHaveBeenCalledWith(
+      expect.objectContaining({ captureUncaughtExceptions: false, captureUnhandledRejections: false })
+    )
+  })
+
+  it('reports uncaught errors through the pipeline', async () => {
+    sdk.notify.mockClear()
+    dispatch('error', { error: new TypeError('x is undefined'), message: 'x is undefined' })
+    await flushPipeline()
+
+    expect(sdk.notify).toHaveBeenCalledOnce()
+    const [error, options] = sdk.notify.mock.calls[0]
+    expect(error.message).toBe('x is undefined')
+    expect(options).toMatchObject({ context: { seenByBeforeSend: true }, tags: ['uncaught'] })
+  })
+
+  it('reports unhandled rejections through the pipeline', async () => {
+    sdk.notify.mockClear()
+    dispatch('unhandledrejection', { reason: 'quota exceeded' })
+    await flushPipeline()
+
+    expect(sdk.notify).toHaveBeenCalledOnce()
+    const [error, options] = sdk.notify.mock.calls[0]
+    expect(error.message).toBe('quota exceeded')
+    expect(options).toMatchObject({ tags: ['unhandledrejection'] })
+  })
+
+  it('leaves out errors from cross-origin scripts', async () => {
+    sdk.notify.mockClear()
+    dispatch('error', { error: null, message: 'Script error.' })
+    await flushPipeline()
+
+    expect(sdk.notify).not.toHaveBeenCalled()
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   init,
   getConfig,
@@ -9,6 +9,8 @@ import {
   getFilterKeys,
   applyBeforeSend,
   sanitize,
+  toPublicConfig,
+  resolvePublicConfig,
   DEFAULT_FILTER_KEYS,
 } from '../src/config'
 
@@ -27,6 +29,16 @@ describe('config', () => {
       expect(() => init({ apiKey: '' })).toThrow('apiKey is required')
     })
 
+    it('throws on an invalid route pattern', () => {
+      expect(() => init({ apiKey: 'test-key', ignoredRoutes: ['/api/(x'] })).toThrow(
+        "ignoredRoutes entry '/api/(x' is not a valid route pattern"
+      )
+      expect(() => init({ apiKey: 'test-key', sampleRates: { '/api/:id([)': 0.5 } })).toThrow(
+        "sampleRates key '/api/:id([)' is not a valid route pattern"
+      )
+      expect(isInitialized()).toBe(false)
+    })
+
     it('sets default values', () => {
       const config = init({ apiKey: 'test-key' })
       expect(config.enableClient).toBe(true)
@@ -38,6 +50,8 @@ describe('config', () => {
       expect(config.connectTimeout).toBe(10000)
       expect(config.maxQueueSize).toBe(1000)
       expect(config.shutdownTimeout).toBe(5000)
+      expect(config.sampleRate).toBe(1)
+      expect(config.dedupeWindow).toBe(5000)
     })
 
     it('allows overriding defaults', () => {
@@ -216,22 +230,22 @@ describe('config', () => {
   })
 
   describe('applyBeforeSend', () => {
-    it('returns event unchanged when no callback', () => {
+    it('returns event unchanged when no callback', async () => {
       init({ apiKey: 'test-key' })
       const event = { errorClass: 'Error', message: 'test', backtrace: [] }
-      expect(applyBeforeSend(event)).toEqual(event)
+      expect(await applyBeforeSend(event)).toEqual(event)
     })
 
-    it('applies single callback', () => {
+    it('applies single callback', async () => {
       init({
         apiKey: 'test-key',
         beforeSend: (event) => ({ ...event, message: 'modified' }),
       })
       const event = { errorClass: 'Error', message: 'original', backtrace: [] }
-      expect(applyBeforeSend(event)?.message).toBe('modified')
+      expect((await applyBeforeSend(event))?.message).toBe('modified')
     })
 
-    it('applies multiple callbacks in order', () => {
+    it('applies multiple callbacks in order', async () => {
       init({
         apiKey: 'test-key',
         beforeSend: [
@@ -240,19 +254,19 @@ describe('config', () => {
         ],
       })
       const event = { errorClass: 'Error', message: 'msg', backtrace: [] }
-      expect(applyBeforeSend(event)?.message).toBe('msg12')
+      expect((await applyBeforeSend(event))?.message).toBe('msg12')
     })
 
-    it('returns null when callback returns null', () => {
+    it('returns null when callback returns null', async () => {
       init({
         apiKey: 'test-key',
         beforeSend: () => null,
       })
       const event = { errorClass: 'Error', message: 'test', backtrace: [] }
-      expect(applyBeforeSend(event)).toBeNull()
+      expect(await applyBeforeSend(event)).toBeNull()
     })
 
-    it('stops processing when callback returns null', () => {
+    it('stops processing when callback returns null', async () => {
       let secondCalled = false
       init({
         apiKey: 'test-key',
@@ -265,9 +279,57 @@ describe('config', () => {
         ],
       })
       const event = { errorClass: 'Error', message: 'test', backtrace: [] }
-      applyBeforeSend(event)
+      await applyBeforeSend(event)
       expect(secondCalled).toBe(false)
     })
+
+    it('awaits async callbacks', async () => {
+      init({
+        apiKey: 'test-key',
+        beforeSend: [
+          async (event) => ({ ...event, tags: ['async'] }),
+          (event) => ({ ...event, fingerprint: 'custom' }),
+        ],
+      })
+      const event = { errorClass: 'Error', message: 'test', backtrace: [] }
+      expect(await applyBeforeSend(event)).toEqual({
+        ...event,
+        tags: ['async'],
+        fingerprint: 'custom',
+      })
+    })
+
+    it('skips callbacks that exceed beforeSendTimeout', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      init({
+        apiKey: 'test-key',
+        beforeSendTimeout: 10,
+        beforeSend: [
+          () => new Promise(() => {}),
+          (event) => ({ ...event, message: 'after timeout' }),
+        ],
+      })
+      const event = { errorClass: 'Error', message: 'test', backtrace: [] }
+      expect((await applyBeforeSend(event))?.message).toBe('after timeout')
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('beforeSend callback threw'),
+        expect.any(Error)
+      )
+      errorSpy.mockRestore()
+    })
+
+    it('continues with the unmodified event when an async callback rejects', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      init({
+        apiKey: 'test-key',
+        beforeSend: async () => {
+          throw new Error('boom')
+        },
+      })
+      const event = { errorClass: 'Error', message: 'test', backtrace: [] }
+      expect(await applyBeforeSend(event)).toEqual(event)
+      errorSpy.mockRestore()
+    })
   })
 
   describe('sanitize', () => {
@@ -339,6 +401,61 @@ describe('config', () => {
     })
   })
 
+  describe('toPublicConfig', () => {
+    it('strips functions, RegExps and server-only options', () => {
+      const config = toPublicConfig({
+        apiKey: 'test-key',
+        environment: 'production',
+        ignoredExceptions: ['AbortError', /^ECONNRESET/],
+        beforeSend: (event) => event,
+        shutdownTimeout: 1000,
+        enableServer: false,
+      })
+      expect(config).toEqual({
+        apiKey: 'test-key',
+        environment: 'production',
+        ignoredExceptions: ['AbortError'],
+      })
+      expect(JSON.parse(JSON.stringify(config))).toEqual(config)
+    })
+
+    it('throws if apiKey is missing', () => {
+      expect(() => toPublicConfig({})).toThrow('apiKey is required')
+    })
+
+    it('throws on an invalid endpoint', () => {
+      expect(() => toPublicConfig({ apiKey: 'test-key', endpoint: 'not a url' })).toThrow(
+        'endpoint must be a valid URL'
+      )
+    })
+  })
+
+  describe('resolvePublicConfig', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('returns null without an apiKey', () => {
+      expect(resolvePublicConfig()).toBeNull()
+    })
+
+    it('reads NEXT_PUBLIC_CHECKEND_* environment variables', () => {
+      vi.stubEnv('NEXT_PUBLIC_CHECKEND_API_KEY', 'env-key')
+      vi.stubEnv('NEXT_PUBLIC_CHECKEND_ENVIRONMENT', 'staging')
+      vi.stubEnv('NEXT_PUBLIC_CHECKEND_DEBUG', 'true')
+      expect(resolvePublicConfig()).toEqual({
+        apiKey: 'env-key',
+        environment: 'staging',
+        debug: true,
+      })
+    })
+
+    it('prefers explicit values over environment variables', () => {
+      vi.stubEnv('NEXT_PUBLIC_CHECKEND_API_KEY', 'env-key')
+      expect(resolvePublicConfig({ apiKey: 'prop-key' })?.apiKey).toBe('prop-key')
+    })
+  })
+
   describe('DEFAULT_FILTER_KEYS', () => {
     it('contains common sensitive keys', () => {
       expect(DEFAULT_FILTER_KEYS).toContain('password')
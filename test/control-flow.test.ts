@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { notFound, redirect } from 'next/navigation'
+import { getControlFlowKind, isControlFlowError } from '../src/control-flow'
+import { init, reset, shouldIgnoreException } from '../src/config'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+/**
+ * Capture what a Next.js API throws
+ */
+function thrownBy(fn: () => unknown): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected the call to throw')
+}
+
+/**
+ * Build an error the way Next.js 14 does: the digest doubles as the message
+ */
+function next14Error(digest: string, message = digest): Error {
+  const error = new Error(message) as Error & { digest: string }
+  error.digest = digest
+  return error
+}
+
+describe('control-flow errors', () => {
+  describe('Next.js 15', () => {
+    it('recognizes redirect()', () => {
+      const error = thrownBy(() => redirect('/login'))
+      expect(getControlFlowKind(error)).toBe('redirect')
+    })
+
+    it('recognizes notFound()', () => {
+      expect(getControlFlowKind(thrownBy(() => notFound()))).toBe('not-found')
+    })
+
+    it('recognizes forbidden() and unauthorized()', () => {
+      // Both need experimental.authInterrupts, so they're built by hand
+      const forbidden = next14Error('NEXT_HTTP_ERROR_FALLBACK;403')
+      const unauthorized = next14Error('NEXT_HTTP_ERROR_FALLBACK;401')
+      expect(getControlFlowKind(forbidden)).toBe('forbidden')
+      expect(getControlFlowKind(unauthorized)).toBe('unauthorized')
+    })
+
+    it('recognizes dynamic usage and bailouts', () => {
+      const dynamic = next14Error('DYNAMIC_SERVER_USAGE', 'Dynamic server usage')
+      const bailout = next14Error('BAILOUT_TO_CLIENT_SIDE_RENDERING')
+      const interrupted = next14Error('NEXT_PRERENDER_INTERRUPTED', 'interrupted')
+      expect(getControlFlowKind(dynamic)).toBe('dynamic-usage')
+      expect(getControlFlowKind(bailout)).toBe('bailout-to-client-rendering')
+      expect(getControlFlowKind(interrupted)).toBe('prerender-interrupted')
+      expect(getControlFlowKind({ $$typeof: Symbol.for('react.postpone') })).toBe('postpone')
+    })
+  })
+
+  describe('Next.js 14', () => {
+    it('recognizes redirect() digests without a trailing separator', () => {
+      const error = next14Error('NEXT_REDIRECT;replace;/login;307', 'NEXT_REDIRECT')
+      expect(getControlFlowKind(error)).toBe('redirect')
+    })
+
+    it('recognizes notFound()', () => {
+      expect(getControlFlowKind(next14Error('NEXT_NOT_FOUND'))).toBe('not-found')
+    })
+
+    it('recognizes dynamic usage and static generation bailouts', () => {
+      const dynamic = next14Error('DYNAMIC_SERVER_USAGE', "Page couldn't be rendered statically")
+      expect(getControlFlowKind(dynamic)).toBe('dynamic-usage')
+
+      const bailout = Object.assign(new Error('Page with `dynamic = "error"`'), {
+        code: 'NEXT_STATIC_GEN_BAILOUT',
+      })
+      expect(getControlFlowKind(bailout)).toBe('static-generation-bailout')
+    })
+
+    it('recognizes markers left in the message when the digest is gone', () => {
+      expect(getControlFlowKind(new Error('NEXT_REDIRECT'))).toBe('redirect')
+      expect(getControlFlowKind(new Error('NEXT_NOT_FOUND'))).toBe('not-found')
+    })
+  })
+
+  it('does not follow the cause chain', () => {
+    const wrapped = new Error('Failed to load page', { cause: next14Error('NEXT_NOT_FOUND') })
+    expect(isControlFlowError(wrapped)).toBe(false)
+    const checkout = new Error('Checkout failed', { cause: thrownBy(() => redirect('/login')) })
+    expect(getControlFlowKind(checkout)).toBeNull()
+  })
+
+  it('leaves other errors alone', () => {
+    expect(isControlFlowError(new Error('Redirect failed'))).toBe(false)
+    expect(isControlFlowError(next14Error('1234567890'))).toBe(false)
+    expect(isControlFlowError('NEXT_REDIRECT')).toBe(false)
+    expect(isControlFlowError(null)).toBe(false)
+  })
+
+  describe('reporting', () => {
+    beforeEach(() => {
+      reset()
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ id: 'test-id' }) })
+    })
+
+    it('is always ignored', () => {
+      init({ apiKey: 'test-key' })
+      expect(shouldIgnoreException(thrownBy(() => redirect('/login')) as Error)).toBe(true)
+    })
+
+    it('is rethrown by withCheckendMiddleware without being reported', async () => {
+      init({ apiKey: 'test-key', enableEdge: true })
+      const { withCheckendMiddleware } = await import('../src/integrations/middleware')
+
+      const error = thrownBy(() => redirect('/login'))
+      const middleware = withCheckendMiddleware(() => {
+        throw error
+      })
+
+      const request = new Request('https://example.com/dashboard')
+      await expect(middleware(request as never)).rejects.toBe(error)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('is not reported from onRequestError', async () => {
+      init({ apiKey: 'test-key', enableEdge: true })
+      vi.stubEnv('NEXT_RUNTIME', 'edge')
+      const { onRequestError } = await import('../src/integrations/instrumentation')
+
+      await onRequestError(
+        next14Error('NEXT_HTTP_ERROR_FALLBACK;404'),
+        { path: '/missing', method: 'GET', headers: {} },
+        { routerKind: 'App Router', routePath: '/[slug]', routeType: 'render' }
+      )
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      vi.unstubAllEnvs()
+    })
+  })
+})
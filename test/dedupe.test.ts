@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import { dedupeKey, isDuplicate, flushDuplicates, withDuplicatesContext } from '../src/dedupe'
+import { toError } from '../src/throwable'
+
+function throwAt(message: string): Error {
+  return new Error(message)
+}
+
+describe('dedupe', () => {
+  beforeEach(() => {
+    reset()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('dedupeKey', () => {
+    it('is identical for errors thrown from the same place', () => {
+      const errors = [1, 2].map(() => throwAt('boom'))
+      expect(dedupeKey(errors[0])).toBe(dedupeKey(errors[1]))
+    })
+
+    it('differs by message and class', () => {
+      expect(dedupeKey(throwAt('a'))).not.toBe(dedupeKey(throwAt('b')))
+      const typeError = new TypeError('a')
+      typeError.stack = throwAt('a').stack
+      expect(dedupeKey(typeError)).not.toBe(dedupeKey(throwAt('a')))
+    })
+
+    it('groups on in-app frames, ignoring library frames', () => {
+      const stack = (library: string) =>
+        [
+          'Error: boom',
+          `    at ${library} (/app/node_modules/lib/index.js:1:1)`,
+          '    at load (/app/src/load.ts:4:2)',
+        ].join('\n')
+      const errors = ['fetchA', 'fetchB'].map((library) => {
+        const error = new Error('boom')
+        error.stack = stack(library)
+        return error
+      })
+
+      expect(dedupeKey(errors[0])).toBe(dedupeKey(errors[1]))
+    })
+
+    it('identifies thrown primitives by value, wherever they were caught', () => {
+      const caughtByWrapper = toError('out of stock')
+      const caughtByHook = (() => toError('out of stock'))()
+
+      expect(caughtByWrapper.stack).not.toBe(caughtByHook.stack)
+      expect(dedupeKey(caughtByWrapper)).toBe(dedupeKey(caughtByHook))
+      expect(dedupeKey(toError('sold out'))).not.toBe(dedupeKey(caughtByHook))
+    })
+  })
+
+  describe('isDuplicate', () => {
+    it('reports the first occurrence and counts duplicates within the window', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 1000 })
+      const report = vi.fn()
+      const errors = [1, 2, 3].map(() => throwAt('boom'))
+
+      expect(isDuplicate(errors[0], report)).toBe(false)
+      expect(isDuplicate(errors[1], report)).toBe(true)
+      expect(isDuplicate(errors[2], report)).toBe(true)
+      expect(report).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1000)
+      expect(report).toHaveBeenCalledWith(2)
+    })
+
+    it('does not report a count when there were no duplicates', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 1000 })
+      const report = vi.fn()
+
+      isDuplicate(throwAt('boom'), report)
+      vi.advanceTimersByTime(1000)
+      expect(report).not.toHaveBeenCalled()
+    })
+
+    it('starts a new window after the previous one closes', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 1000 })
+      const errors = [1, 2].map(() => throwAt('boom'))
+
+      expect(isDuplicate(errors[0], vi.fn())).toBe(false)
+      vi.advanceTimersByTime(1000)
+      expect(isDuplicate(errors[1], vi.fn())).toBe(false)
+    })
+
+    it('is disabled with a window of 0', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 0 })
+      const errors = [1, 2].map(() => throwAt('boom'))
+
+      expect(isDuplicate(errors[0], vi.fn())).toBe(false)
+      expect(isDuplicate(errors[1], vi.fn())).toBe(false)
+    })
+
+    it('starts fresh after re-initialization', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 1000 })
+      const errors = [1, 2].map(() => throwAt('boom'))
+      isDuplicate(errors[0], vi.fn())
+
+      init({ apiKey: 'test-key', dedupeWindow: 1000 })
+      expect(isDuplicate(errors[1], vi.fn())).toBe(false)
+    })
+  })
+
+  describe('flushDuplicates', () => {
+    it('reports pending counts immediately', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 60000 })
+      const report = vi.fn()
+      const errors = [1, 2].map(() => throwAt('boom'))
+      isDuplicate(errors[0], report)
+      isDuplicate(errors[1], report)
+
+      flushDuplicates()
+      expect(report).toHaveBeenCalledWith(1)
+
+      vi.advanceTimersByTime(60000)
+      expect(report).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('withDuplicatesContext', () => {
+    it('records the number of duplicates and the window', () => {
+      init({ apiKey: 'test-key', dedupeWindow: 1000 })
+      expect(withDuplicatesContext({ userId: '1' }, 4)).toEqual({
+        userId: '1',
+        dedupe: { duplicates: 4, window: 1000 },
+      })
+    })
+  })
+})
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { getErrorDigest } from '../src/digest'
+
+describe('getErrorDigest', () => {
+  it('returns the digest Next.js attached to an error', () => {
+    const error = Object.assign(new Error('An error occurred in the Server Components render'), {
+      digest: '2338597843',
+    })
+    expect(getErrorDigest(error)).toBe('2338597843')
+  })
+
+  it('returns undefined without a string digest', () => {
+    expect(getErrorDigest(new Error('boom'))).toBeUndefined()
+    expect(getErrorDigest(Object.assign(new Error('boom'), { digest: '' }))).toBeUndefined()
+    expect(getErrorDigest(Object.assign(new Error('boom'), { digest: 42 }))).toBeUndefined()
+    expect(getErrorDigest('boom')).toBeUndefined()
+    expect(getErrorDigest(null)).toBeUndefined()
+  })
+})
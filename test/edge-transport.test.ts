@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createEdgeTransport } from '../src/edge-transport'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+function response(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: () => Promise.resolve({ id: 'notice-1' }),
+  }
+}
+
+function transport(options = {}) {
+  return createEdgeTransport({
+    endpoint: 'https://app.checkend.io',
+    apiKey: 'test-key',
+    ...options,
+  })
+}
+
+describe('edge transport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    mockFetch.mockReset()
+    mockFetch.mockResolvedValue(response(201))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('posts queued notices to the ingest endpoint', async () => {
+    const edge = transport()
+    edge.enqueue({ error_class: 'Error' })
+    await edge.flush()
+
+    const [url, options] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://app.checkend.io/ingest/v1/errors')
+    expect(options.headers['Checkend-Ingestion-Key']).toBe('test-key')
+    expect(JSON.parse(options.body)).toEqual({ error_class: 'Error' })
+    expect(options.signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it('sends notices in batches', async () => {
+    const pending: Array<(value: unknown) => void> = []
+    mockFetch.mockImplementation(() => new Promise((resolve) => pending.push(resolve)))
+
+    const edge = transport({ batchSize: 2 })
+    edge.enqueue({ n: 1 })
+    edge.enqueue({ n: 2 })
+    edge.enqueue({ n: 3 })
+    const flushed = edge.flush()
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(edge.size).toBe(1)
+
+    pending.splice(0).forEach((resolve) => resolve(response(201)))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+
+    pending.splice(0).forEach((resolve) => resolve(response(201)))
+    await flushed
+  })
+
+  it('drops notices past maxQueueSize', () => {
+    const edge = transport({ maxQueueSize: 2 })
+    expect(edge.enqueue({ n: 1 })).toBe(true)
+    expect(edge.enqueue({ n: 2 })).toBe(true)
+    expect(edge.enqueue({ n: 3 })).toBe(false)
+    expect(edge.size).toBe(2)
+  })
+
+  it('aborts requests after the timeout and retries them', async () => {
+    mockFetch.mockImplementationOnce(
+      (_url: string, options: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          options.signal!.addEventListener('abort', () => reject(new Error('aborted')))
+        })
+    )
+
+    const edge = transport({ timeout: 100, retryDelay: 10 })
+    const result = edge.send({ n: 1 })
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(10)
+
+    expect(await result).toEqual({ id: 'notice-1' })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('retries server errors with exponential backoff', async () => {
+    mockFetch.mockResolvedValue(response(500))
+
+    const edge = transport({ retryDelay: 100, maxRetries: 3 })
+    const result = edge.send({ n: 1 })
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(199)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    await vi.advanceTimersByTimeAsync(400)
+
+    expect(await result).toBeNull()
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('honors Retry-After on 429 for every pending notice', async () => {
+    mockFetch.mockResolvedValueOnce(response(429, { 'Retry-After': '2' }))
+
+    const edge = transport({ retryDelay: 10 })
+    const first = edge.send({ n: 1 })
+    await vi.advanceTimersByTimeAsync(0)
+
+    const second = edge.send({ n: 2 })
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await first).toEqual({ id: 'notice-1' })
+    expect(await second).toEqual({ id: 'notice-1' })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('caps Retry-After at maxRetryDelay', async () => {
+    mockFetch.mockResolvedValueOnce(response(429, { 'Retry-After': '3600' }))
+
+    const edge = transport({ maxRetryDelay: 5000 })
+    const result = edge.send({ n: 1 })
+    await vi.advanceTimersByTimeAsync(5000)
+
+    expect(await result).toEqual({ id: 'notice-1' })
+  })
+
+  it('does not retry client errors', async () => {
+    mockFetch.mockResolvedValue(response(422))
+
+    const edge = transport()
+    expect(await edge.send({ n: 1 })).toBeNull()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
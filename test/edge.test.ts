@@ -37,6 +37,28 @@ describe('edge SDK', () => {
     expect(body.message).toBe('Test error')
   })
 
+  it('includes environment, revision and app name', async () => {
+    init({
+      apiKey: 'test-key',
+      enableEdge: true,
+      environment: 'staging',
+      revision: 'abc123',
+      appName: 'storefront',
+    })
+
+    const { notify } = await import('../src/edge')
+
+    await notify(new Error('Test'))
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.app).toMatchObject({
+      environment: 'staging',
+      revision: 'abc123',
+      app_name: 'storefront',
+      runtime: 'edge',
+    })
+  })
+
   it('uses custom endpoint when configured', async () => {
     init({
       apiKey: 'test-key',
@@ -94,6 +116,300 @@ describe('edge SDK', () => {
     expect(body.request.headers['content-type']).toBe('application/json')
   })
 
+  it('scrubs PII from the message, context and request when scrubValues is enabled', async () => {
+    init({ apiKey: 'test-key', enableEdge: true, scrubValues: true, captureClientIp: true })
+
+    const { notify } = await import('../src/edge')
+
+    const request = new Request('https://example.com/api?email=a@example.com', {
+      headers: { 'X-Forwarded-For': '203.0.113.7' },
+    })
+
+    await notify(new Error('No account for a@example.com'), {
+      request,
+      context: { note: 'from 203.0.113.7' },
+    })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.message).toBe('No account for [FILTERED:email]')
+    expect(body.context.note).toBe('from [FILTERED:ipv4]')
+    expect(body.request.url).toBe('/api?email=[FILTERED:email]')
+    expect(body.request.headers['x-forwarded-for']).toBe('[FILTERED:ipv4]')
+    expect(body.request.client_ip).toBe('[FILTERED:ipv4]')
+  })
+
+  it('filters client IP headers unless captureClientIp is enabled', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+
+    const { notify } = await import('../src/edge')
+
+    const request = new Request('https://example.com/api', {
+      headers: { 'X-Forwarded-For': '203.0.113.7, 10.0.0.1', 'X-Real-IP': '203.0.113.7' },
+    })
+    await notify(new Error('Test'), { request })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.request.headers['x-forwarded-for']).toBe('[FILTERED]')
+    expect(body.request.headers['x-real-ip']).toBe('[FILTERED]')
+    expect(body.request.client_ip).toBeUndefined()
+
+    reset()
+    mockFetch.mockClear()
+    init({ apiKey: 'test-key', enableEdge: true, captureClientIp: true })
+    await notify(new Error('Test'), { request })
+
+    const captured = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(captured.request.client_ip).toBe('203.0.113.7')
+    expect(captured.request.headers['x-forwarded-for']).toBe('203.0.113.7, 10.0.0.1')
+  })
+
+  it('sends the event returned by an async beforeSend', async () => {
+    init({
+      apiKey: 'test-key',
+      enableEdge: true,
+      beforeSend: async (event) => ({
+        ...event,
+        message: 'rewritten',
+        tags: ['from-before-send'],
+        fingerprint: 'custom',
+        backtrace: event.backtrace.slice(0, 1),
+      }),
+    })
+
+    const { notify } = await import('../src/edge')
+
+    await notify(new Error('original'))
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.message).toBe('rewritten')
+    expect(body.tags).toEqual(['from-before-send'])
+    expect(body.fingerprint).toBe('custom')
+    expect(body.backtrace).toHaveLength(1)
+    expect(body.backtrace[0]).toEqual({
+      file: expect.any(String),
+      method: expect.any(String),
+      number: expect.any(Number),
+      column: expect.any(Number),
+      in_app: expect.any(Boolean),
+    })
+  })
+
+  it('sends the cause chain and aggregated errors', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+
+    const { notify } = await import('../src/edge')
+
+    const cause = new TypeError('fetch failed')
+    await notify(new AggregateError([new Error('a', { cause })], 'all failed'))
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.errors).toHaveLength(1)
+    expect(body.errors[0]).toMatchObject({ error_class: 'Error', message: 'a' })
+    expect(body.errors[0].cause).toMatchObject({ error_class: 'TypeError', message: 'fetch failed' })
+    expect(body.errors[0].cause.backtrace[0]).toMatchObject({ number: expect.any(Number) })
+  })
+
+  it('sends columns and marks in-app frames', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+
+    const { notify } = await import('../src/edge')
+
+    const error = new Error('Test')
+    error.stack = [
+      'Error: Test',
+      '    at handler (webpack-internal:///(middleware)/./src/middleware.ts:12:9)',
+      '    at adapter (webpack-internal:///(middleware)/./node_modules/next/dist/esm/server/web/adapter.js:8:20)',
+    ].join('\n')
+    await notify(error)
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.backtrace).toEqual([
+      { file: 'src/middleware.ts', method: 'handler', number: 12, column: 9, in_app: true },
+      {
+        file: 'node_modules/next/dist/esm/server/web/adapter.js',
+        method: 'adapter',
+        number: 8,
+        column: 20,
+        in_app: false,
+      },
+    ])
+  })
+
+  it('applies beforeSend in notifySync', async () => {
+    init({ apiKey: 'test-key', enableEdge: true, beforeSend: () => null })
+
+    const { notifySync } = await import('../src/edge')
+
+    expect(await notifySync(new Error('Test'))).toBeNull()
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('applies filterKeys paths and globs to headers', async () => {
+    init({
+      apiKey: 'test-key',
+      enableEdge: true,
+      filterKeys: ['request.headers.x-internal-*'],
+    })
+
+    const { notify } = await import('../src/edge')
+
+    const request = new Request('https://example.com/api', {
+      headers: {
+        'X-Internal-Route': 'backend-3',
+        'X-Csrf-Token': 'abc',
+        'X-Request-Id': 'req-1',
+      },
+    })
+
+    await notify(new Error('Test'), { request })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.request.headers['x-internal-route']).toBe('[FILTERED]')
+    expect(body.request.headers['x-csrf-token']).toBe('[FILTERED]')
+    expect(body.request.headers['x-request-id']).toBe('req-1')
+  })
+
+  it('applies allowKeys to context, request and user', async () => {
+    init({
+      apiKey: 'test-key',
+      enableEdge: true,
+      allowKeys: ['context.page', 'request.method', 'request.url', 'user.id'],
+    })
+
+    const { notify } = await import('../src/edge')
+
+    const request = new Request('https://example.com/api', {
+      headers: { 'X-Request-Id': 'req-1' },
+    })
+
+    await notify(new Error('Test'), {
+      request,
+      context: { page: 'checkout', cartTotal: 42 },
+      user: { id: '1', email: 'jane@example.com' },
+    })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.context).toEqual({ page: 'checkout', cartTotal: '[FILTERED]' })
+    expect(body.user).toEqual({ id: '1', email: '[FILTERED]' })
+    expect(body.request.method).toBe('GET')
+    expect(body.request.url).toBe('/api')
+    expect(body.request.headers).toBe('[FILTERED]')
+  })
+
+  it('honors route and runtime rules in ignoredExceptions', async () => {
+    init({
+      apiKey: 'test-key',
+      enableEdge: true,
+      ignoredExceptions: [{ name: 'AbortError', route: '/api/:path*', runtime: 'edge' }],
+    })
+
+    const { notify } = await import('../src/edge')
+
+    const error = new Error('aborted')
+    error.name = 'AbortError'
+
+    await notify(error, { request: new Request('https://example.com/api/search') })
+    expect(mockFetch).not.toHaveBeenCalled()
+
+    await notify(error, { request: new Request('https://example.com/dashboard') })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports middleware errors through event.waitUntil', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+
+    const { withCheckendMiddleware } = await import('../src/integrations/middleware')
+
+    const error = new Error('Middleware failed')
+    const middleware = withCheckendMiddleware(() => {
+      throw error
+    })
+    const event = { waitUntil: vi.fn() }
+
+    await expect(
+      middleware(new Request('https://example.com/dashboard') as never, event as never)
+    ).rejects.toBe(error)
+
+    expect(event.waitUntil).toHaveBeenCalledTimes(1)
+    await event.waitUntil.mock.calls[0][0]
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('sends middleware errors once with the onRequestError report merged in', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+    vi.stubEnv('NEXT_RUNTIME', 'edge')
+    const { withCheckendMiddleware } = await import('../src/integrations/middleware')
+    const { onRequestError } = await import('../src/integrations/instrumentation')
+
+    const error = new Error('Middleware failed')
+    const middleware = withCheckendMiddleware(() => {
+      throw error
+    })
+    const event = { waitUntil: vi.fn() }
+
+    await expect(
+      middleware(new Request('https://example.com/dashboard') as never, event as never)
+    ).rejects.toBe(error)
+    await onRequestError(
+      Object.assign(error, { digest: '2338597843' }),
+      { path: '/dashboard', method: 'GET', headers: {} },
+      { routerKind: 'App Router', routePath: '/middleware', routeType: 'middleware' }
+    )
+    await event.waitUntil.mock.calls[0][0]
+    vi.unstubAllEnvs()
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.digest).toBe('2338597843')
+    expect(body.context).toMatchObject({ middleware: true, routeType: 'middleware' })
+  })
+
+  it('sends the breadcrumbs of the middleware invocation', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+
+    const { withCheckendMiddleware } = await import('../src/integrations/middleware')
+    const { addBreadcrumb } = await import('../src/edge')
+
+    const middleware = withCheckendMiddleware((request) => {
+      addBreadcrumb({ category: 'auth', message: 'Checked session', data: { token: 'abc' } })
+      if (request.url.endsWith('/fail')) throw new Error('Middleware failed')
+      return new Response(null, { status: 307, headers: { location: '/login' } })
+    })
+
+    await middleware(new Request('https://example.com/dashboard') as never, undefined as never)
+    await expect(
+      middleware(new Request('https://example.com/fail') as never, undefined as never)
+    ).rejects.toThrow('Middleware failed')
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.breadcrumbs).toEqual([
+      {
+        category: 'auth',
+        message: 'Checked session',
+        level: 'info',
+        data: { token: '[FILTERED]' },
+        timestamp: expect.any(String),
+      },
+    ])
+  })
+
+  it('instruments fetch only when instrumentFetch is set', async () => {
+    const { initEdge } = await import('../src/edge')
+    const { uninstrumentFetch } = await import('../src/fetch-instrumentation')
+
+    init({ apiKey: 'test-key', enableEdge: true })
+    initEdge()
+    expect(globalThis.fetch).toBe(mockFetch)
+
+    reset()
+    init({ apiKey: 'test-key', enableEdge: true, instrumentFetch: true })
+    initEdge()
+    expect(globalThis.fetch).not.toBe(mockFetch)
+
+    uninstrumentFetch()
+    expect(globalThis.fetch).toBe(mockFetch)
+  })
+
   it('does not send when enableEdge is false', async () => {
     init({ apiKey: 'test-key', enableEdge: false })
 
@@ -104,6 +420,51 @@ describe('edge SDK', () => {
     expect(mockFetch).not.toHaveBeenCalled()
   })
 
+  it('drops unsampled errors and records the rate on sampled ones', async () => {
+    init({
+      apiKey: 'test-key',
+      enableEdge: true,
+      sampleRates: { '/api/search': 0, '/api/users': 0.5 },
+    })
+
+    const { notify } = await import('../src/edge')
+
+    await notify(new Error('Test'), {
+      request: new Request('https://example.com/api/search?q=1'),
+    })
+    expect(mockFetch).not.toHaveBeenCalled()
+
+    const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(0.1)
+    await notify(new Error('Test'), {
+      request: new Request('https://example.com/api/users'),
+    })
+    randomSpy.mockRestore()
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.context.sampling).toEqual({ rate: 0.5, rule: '/api/users' })
+  })
+
+  it('suppresses duplicates and reports their count when the window closes', async () => {
+    vi.useFakeTimers()
+    init({ apiKey: 'test-key', enableEdge: true, dedupeWindow: 1000 })
+
+    const { notify } = await import('../src/edge')
+
+    const errors = [1, 2, 3].map(() => new Error('Duplicate'))
+    for (const error of errors) {
+      await notify(error)
+    }
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    vi.useRealTimers()
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body)
+    expect(body.message).toBe('Duplicate')
+    expect(body.context.dedupe).toEqual({ duplicates: 2, window: 1000 })
+  })
+
   it('notifySync returns id on success', async () => {
     init({ apiKey: 'test-key', enableEdge: true })
 
@@ -115,24 +476,71 @@ describe('edge SDK', () => {
   })
 
   it('notifySync returns null on failure', async () => {
+    vi.useFakeTimers()
     mockFetch.mockResolvedValue({ ok: false, status: 500 })
     init({ apiKey: 'test-key', enableEdge: true })
 
     const { notifySync } = await import('../src/edge')
 
-    const result = await notifySync(new Error('Test'))
+    const result = notifySync(new Error('Test'))
+    await vi.runAllTimersAsync()
 
-    expect(result).toBeNull()
+    expect(await result).toBeNull()
+    vi.useRealTimers()
   })
 
   it('silently handles fetch errors', async () => {
+    vi.useFakeTimers()
     mockFetch.mockRejectedValue(new Error('Network error'))
     init({ apiKey: 'test-key', enableEdge: true })
 
     const { notify } = await import('../src/edge')
 
-    // Should not throw
-    await expect(notify(new Error('Test'))).resolves.toBeUndefined()
+    // Should not throw, after retrying
+    const result = notify(new Error('Test'))
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBeUndefined()
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+    vi.useRealTimers()
+  })
+
+  it('waits for delivery no longer than the request timeout', async () => {
+    vi.useFakeTimers()
+    mockFetch.mockRejectedValue(new Error('Network error'))
+    init({ apiKey: 'test-key', enableEdge: true, timeout: 1500 })
+
+    const { notify, flush } = await import('../src/edge')
+
+    let resolved = false
+    void notify(new Error('Test')).then(() => (resolved = true))
+    await vi.advanceTimersByTimeAsync(1500)
+
+    expect(resolved).toBe(true)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    const flushed = flush()
+    await vi.runAllTimersAsync()
+    await flushed
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+    vi.useRealTimers()
+  })
+
+  it('hands delivery to waitUntil without waiting for it', async () => {
+    let respond: (value: unknown) => void = () => {}
+    mockFetch.mockReturnValue(new Promise((resolve) => (respond = resolve)))
+    init({ apiKey: 'test-key', enableEdge: true })
+
+    const { notify, flush } = await import('../src/edge')
+
+    const waitUntil = vi.fn()
+    await notify(new Error('Test'), { waitUntil })
+
+    expect(waitUntil).toHaveBeenCalledWith(expect.any(Promise))
+    respond({ ok: true, status: 201, json: () => Promise.resolve({ id: 'test-id' }) })
+    await waitUntil.mock.calls[0][0]
+    await flush()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
   })
 
   it('includes context and tags', async () => {
@@ -151,4 +559,47 @@ describe('edge SDK', () => {
     expect(body.tags).toEqual(['api', 'critical'])
     expect(body.fingerprint).toBe('custom-fingerprint')
   })
+
+  it('sends the request, route params and router context from onRequestError', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+    vi.stubEnv('NEXT_RUNTIME', 'edge')
+    const { onRequestError } = await import('../src/integrations/instrumentation')
+
+    await onRequestError(
+      new Error('Render failed'),
+      {
+        path: '/blog/hello-world?preview=1',
+        method: 'GET',
+        headers: { cookie: 'session=abc', 'user-agent': 'Mozilla/5.0', 'x-real-ip': '203.0.113.7' },
+      },
+      { routerKind: 'App Router', routePath: '/blog/[slug]/page', routeType: 'render' }
+    )
+    vi.unstubAllEnvs()
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.request).toEqual({
+      url: '/blog/hello-world?preview=1',
+      method: 'GET',
+      headers: { cookie: '[FILTERED]', 'user-agent': 'Mozilla/5.0', 'x-real-ip': '[FILTERED]' },
+      user_agent: 'Mozilla/5.0',
+      params: { slug: 'hello-world' },
+    })
+    expect(body.context).toMatchObject({ routerKind: 'App Router', routePath: '/blog/[slug]/page' })
+  })
+
+  it('sends the digest Next.js shows on the error page', async () => {
+    init({ apiKey: 'test-key', enableEdge: true })
+    vi.stubEnv('NEXT_RUNTIME', 'edge')
+    const { onRequestError } = await import('../src/integrations/instrumentation')
+
+    await onRequestError(
+      Object.assign(new Error('Render failed'), { digest: '2338597843' }),
+      { path: '/dashboard', method: 'GET', headers: {} },
+      { routerKind: 'App Router', routePath: '/dashboard', routeType: 'render' }
+    )
+    vi.unstubAllEnvs()
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.digest).toBe('2338597843')
+  })
 })
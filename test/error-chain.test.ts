@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeErrorChain,
+  getRootCause,
+  rootCauseFingerprint,
+  MAX_AGGREGATED_ERRORS,
+} from '../src/error-chain'
+
+describe('error chain', () => {
+  describe('describeErrorChain', () => {
+    it('describes the cause chain with classes, messages and backtraces', () => {
+      const root = new TypeError('connection refused')
+      const middle = new Error('query failed', { cause: root })
+      const error = new Error('could not load user', { cause: middle })
+
+      const { cause } = describeErrorChain(error)
+
+      expect(cause?.errorClass).toBe('Error')
+      expect(cause?.message).toBe('query failed')
+      expect(cause?.backtrace[0]).toMatch(/^at /)
+      expect(cause?.cause?.errorClass).toBe('TypeError')
+      expect(cause?.cause?.message).toBe('connection refused')
+      expect(cause?.cause?.cause).toBeUndefined()
+    })
+
+    it('describes the errors of an AggregateError', async () => {
+      const error = await Promise.any([
+        Promise.reject(new RangeError('a')),
+        Promise.reject(new Error('b', { cause: 'timeout' })),
+      ]).catch((e: AggregateError) => e)
+
+      const { errors } = describeErrorChain(error)
+
+      expect(errors?.map((item) => [item.errorClass, item.message])).toEqual([
+        ['RangeError', 'a'],
+        ['Error', 'b'],
+      ])
+      expect(errors?.[1].cause).toEqual({ errorClass: 'string', message: 'timeout', backtrace: [] })
+    })
+
+    it('limits the number of aggregated errors', () => {
+      const errors = Array.from({ length: 20 }, (_, i) => new Error(String(i)))
+      const result = describeErrorChain(new AggregateError(errors, 'many'))
+
+      expect(result.errors).toHaveLength(MAX_AGGREGATED_ERRORS)
+    })
+
+    it('stops at the depth limit', () => {
+      let error = new Error('0')
+      for (let i = 1; i <= 10; i++) error = new Error(String(i), { cause: error })
+
+      let depth = 0
+      let cause = describeErrorChain(error, { maxDepth: 3 }).cause
+      while (cause) {
+        depth++
+        cause = cause.cause
+      }
+
+      expect(depth).toBe(3)
+    })
+
+    it('cuts off cycles', () => {
+      const a = new Error('a')
+      const b = new Error('b', { cause: a })
+      Object.assign(a, { cause: b })
+
+      const { cause } = describeErrorChain(a)
+
+      expect(cause?.message).toBe('b')
+      expect(cause?.cause).toBeUndefined()
+    })
+
+    it('scrubs messages and backtraces', () => {
+      const error = new Error('outer', { cause: new Error('user jane@example.com') })
+
+      const { cause } = describeErrorChain(error, {
+        scrub: (text) => text.replace(/\S+@\S+/g, '[EMAIL]'),
+      })
+
+      expect(cause?.message).toBe('user [EMAIL]')
+    })
+
+    it("doesn't dump objects without a message", () => {
+      const error = new Error('outer', { cause: { password: 'hunter2' } })
+
+      expect(describeErrorChain(error).cause).toEqual({
+        errorClass: 'Object',
+        message: '',
+        backtrace: [],
+      })
+    })
+
+    it('returns nothing for plain errors', () => {
+      expect(describeErrorChain(new Error('plain'))).toEqual({})
+    })
+  })
+
+  describe('getRootCause', () => {
+    it('returns the innermost error', () => {
+      const root = new TypeError('root')
+      const error = new Error('outer', { cause: new Error('middle', { cause: root }) })
+
+      expect(getRootCause(error)).toBe(root)
+    })
+
+    it('ignores causes that are not errors', () => {
+      const error = new Error('outer', { cause: 'reason' })
+
+      expect(getRootCause(error)).toBe(error)
+    })
+  })
+
+  describe('rootCauseFingerprint', () => {
+    it('is the same for different wrappers of the same root cause', () => {
+      const root = new TypeError('connection refused')
+      const a = new Error('loading users failed', { cause: root })
+      const b = new Error('loading posts failed', { cause: root })
+
+      expect(rootCauseFingerprint(a)).toBe(rootCauseFingerprint(b))
+      expect(rootCauseFingerprint(a)).toMatch(/^TypeError:/)
+    })
+  })
+})
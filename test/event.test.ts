@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { errorToEvent, eventToError, toSdkNotifyOptions } from '../src/event'
+
+describe('event conversion', () => {
+  it('builds an event from an error and options', () => {
+    const error = new TypeError('Invalid')
+    const event = errorToEvent(error, { tags: ['a'], context: { id: 1 } })
+
+    expect(event.errorClass).toBe('TypeError')
+    expect(event.message).toBe('Invalid')
+    expect(event.backtrace[0]).toMatch(/^at /)
+    expect(event.tags).toEqual(['a'])
+    expect(event.context).toEqual({ id: 1 })
+  })
+
+  it('reuses the original error when only options changed', () => {
+    const error = new Error('Invalid')
+    const event = errorToEvent(error, {})
+    const result = eventToError({ ...event, fingerprint: 'custom' }, error)
+
+    expect(result.error).toBe(error)
+    expect(result.options.fingerprint).toBe('custom')
+  })
+
+  it('rebuilds the error when the class, message or backtrace changed', () => {
+    const error = new TypeError('Invalid')
+    const event = errorToEvent(error, {})
+    const result = eventToError(
+      { ...event, errorClass: 'ValidationError', message: 'Scrubbed', backtrace: ['at app.js:1:1'] },
+      error
+    )
+
+    expect(result.error).not.toBe(error)
+    expect(result.error).toBeInstanceOf(TypeError)
+    expect(result.error.name).toBe('ValidationError')
+    expect(result.error.message).toBe('Scrubbed')
+    expect(result.error.stack).toBe('ValidationError: Scrubbed\n    at app.js:1:1')
+    expect(error.message).toBe('Invalid')
+  })
+
+  it('sends app metadata and the digest to the SDKs as context.app and context.digest', () => {
+    const event = errorToEvent(new Error('Invalid'), {
+      context: { id: 1 },
+      app: { runtime: 'server', revision: 'abc123' },
+      digest: '2338597843',
+    })
+
+    expect(toSdkNotifyOptions(event).context).toEqual({
+      id: 1,
+      app: { runtime: 'server', revision: 'abc123' },
+      digest: '2338597843',
+    })
+  })
+
+  it('keeps the first frame of stacks without a message line', () => {
+    const error = new Error('Invalid')
+    error.stack = 'handler@http://localhost:3000/app.js:1:2\nload@http://localhost:3000/app.js:3:4'
+
+    expect(errorToEvent(error, {}).backtrace).toEqual([
+      'handler@http://localhost:3000/app.js:1:2',
+      'load@http://localhost:3000/app.js:3:4',
+    ])
+  })
+})
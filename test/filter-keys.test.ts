@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createAllowFilter, createKeyFilter, splitWords } from '../src/filter-keys'
+import {
+  init,
+  reset,
+  sanitize,
+  restrictToAllowKeys,
+  toPublicConfig,
+  DEFAULT_FILTER_KEYS,
+} from '../src/config'
+
+describe('filter keys', () => {
+  describe('splitWords', () => {
+    it('splits camelCase, snake_case and kebab-case', () => {
+      expect(splitWords('accessToken')).toEqual(['access', 'token'])
+      expect(splitWords('csrf_token')).toEqual(['csrf', 'token'])
+      expect(splitWords('X-Api-Key')).toEqual(['x', 'api', 'key'])
+      expect(splitWords('APIKey')).toEqual(['api', 'key'])
+    })
+  })
+
+  describe('word matching', () => {
+    const filter = createKeyFilter(['sin', 'auth', 'token', 'apiKey'])
+
+    it('matches whole words', () => {
+      expect(filter('sin', ['sin'])).toBe(true)
+      expect(filter('auth', ['auth'])).toBe(true)
+      expect(filter('authToken', ['authToken'])).toBe(true)
+      expect(filter('csrf_token', ['csrf_token'])).toBe(true)
+      expect(filter('x-api-key', ['x-api-key'])).toBe(true)
+    })
+
+    it('does not match inside other words', () => {
+      for (const key of ['business', 'using', 'missing', 'author', 'tokenizer']) {
+        expect(filter(key, [key])).toBe(false)
+      }
+    })
+  })
+
+  describe('exact and substring matching', () => {
+    it('matches exactly, ignoring case', () => {
+      const filter = createKeyFilter(['token'], 'exact')
+      expect(filter('Token', ['Token'])).toBe(true)
+      expect(filter('accessToken', ['accessToken'])).toBe(false)
+    })
+
+    it('matches substrings', () => {
+      const filter = createKeyFilter(['sin'], 'substring')
+      expect(filter('business', ['business'])).toBe(true)
+    })
+  })
+
+  describe('paths, globs and RegExps', () => {
+    it('matches dotted paths against the end of the key path', () => {
+      const filter = createKeyFilter(['user.address.street'])
+      expect(filter('street', ['context', 'user', 'address', 'street'])).toBe(true)
+      expect(filter('street', ['context', 'shop', 'address', 'street'])).toBe(false)
+      expect(filter('address', ['context', 'user', 'address'])).toBe(false)
+    })
+
+    it('matches globs', () => {
+      const filter = createKeyFilter(['*_secret', 'request.headers.x-*'])
+      expect(filter('client_secret', ['client_secret'])).toBe(true)
+      expect(filter('secretive', ['secretive'])).toBe(false)
+      expect(filter('x-trace', ['request', 'headers', 'x-trace'])).toBe(true)
+      expect(filter('x-trace', ['context', 'x-trace'])).toBe(false)
+    })
+
+    it('matches RegExps', () => {
+      const filter = createKeyFilter([/^pin\d*$/g])
+      expect(filter('pin', ['pin'])).toBe(true)
+      expect(filter('pin2', ['pin2'])).toBe(true)
+      expect(filter('pin', ['pin'])).toBe(true)
+      expect(filter('spin', ['spin'])).toBe(false)
+    })
+
+    it('filters nothing without entries', () => {
+      expect(createKeyFilter([])('password', ['password'])).toBe(false)
+    })
+  })
+
+  describe('sanitize', () => {
+    beforeEach(() => {
+      reset()
+    })
+
+    it('no longer filters keys that merely contain a default key', () => {
+      init({ apiKey: 'test-key' })
+      expect(DEFAULT_FILTER_KEYS).toContain('sin')
+      const result = sanitize({ business: 'Acme', author: 'Jane', sin: '123' })
+      expect(result).toEqual({ business: 'Acme', author: 'Jane', sin: '[FILTERED]' })
+    })
+
+    it('filters concatenated lowercase keys containing a default key', () => {
+      init({ apiKey: 'test-key' })
+      const keys = [
+        'apikey',
+        'accesstoken',
+        'newpassword',
+        'sessionid',
+        'creditcard',
+        'privatekey',
+        'clientsecret',
+        'x-csrftoken',
+      ]
+      const result = sanitize(Object.fromEntries(keys.map((key) => [key, 'value'])))
+      expect(result).toEqual(Object.fromEntries(keys.map((key) => [key, '[FILTERED]'])))
+      expect(sanitize({ className: 'card' })).toEqual({ className: 'card' })
+    })
+
+    it('filters default keys in headers and query params', () => {
+      init({ apiKey: 'test-key' })
+      const request = { headers: { 'x-csrftoken': 'abc' }, query: { apikey: 'abc', page: '2' } }
+      expect(sanitize(request, 10, ['request'])).toEqual({
+        headers: { 'x-csrftoken': '[FILTERED]' },
+        query: { apikey: '[FILTERED]', page: '2' },
+      })
+    })
+
+    it('honors filterKeyMatching for custom keys', () => {
+      init({ apiKey: 'test-key', filterKeys: ['pin'], filterKeyMatching: 'substring' })
+      expect(sanitize({ spinner: 'on' }).spinner).toBe('[FILTERED]')
+    })
+
+    it('matches custom keys as whole words by default', () => {
+      init({ apiKey: 'test-key', filterKeys: ['pin'] })
+      expect(sanitize({ userPin: '1234', spinner: 'on' })).toEqual({
+        userPin: '[FILTERED]',
+        spinner: 'on',
+      })
+    })
+
+    it('applies dotted paths relative to the given root', () => {
+      init({ apiKey: 'test-key', filterKeys: ['context.user.address.street'] })
+      const data = { user: { address: { street: '1 Main St', city: 'Paris' } } }
+      expect(sanitize(data, 10, ['context']).user.address).toEqual({
+        street: '[FILTERED]',
+        city: 'Paris',
+      })
+      expect(sanitize(data).user.address.street).toBe('1 Main St')
+    })
+
+    it('filters nothing when there are no keys', () => {
+      init({ apiKey: 'test-key', useDefaultFilterKeys: false })
+      expect(sanitize({ password: 'x' })).toEqual({ password: 'x' })
+    })
+  })
+
+  describe('allowlist', () => {
+    beforeEach(() => {
+      reset()
+    })
+
+    it('allows anchored paths and descends into their parents', () => {
+      const allow = createAllowFilter(['context.order.id', 'user.*'])
+      expect(allow('context', ['context'])).toBe('descend')
+      expect(allow('order', ['context', 'order'])).toBe('descend')
+      expect(allow('id', ['context', 'order', 'id'])).toBe('allow')
+      expect(allow('total', ['context', 'order', 'total'])).toBe('deny')
+      expect(allow('email', ['user', 'email'])).toBe('allow')
+      expect(allow('order', ['order'])).toBe('deny')
+    })
+
+    it('allows plain keys and RegExps at any depth', () => {
+      const allow = createAllowFilter(['orderId', /^trace/])
+      expect(allow('orderId', ['context', 'checkout', 'orderId'])).toBe('allow')
+      expect(allow('traceId', ['request', 'traceId'])).toBe('allow')
+      expect(allow('checkout', ['context', 'checkout'])).toBe('descend')
+    })
+
+    it('replaces everything outside the allowlist with [FILTERED]', () => {
+      init({ apiKey: 'test-key', allowKeys: ['context.orderId', 'context.cart.items'] })
+      const result = sanitize(
+        {
+          orderId: 'o-1',
+          email: 'jane@example.com',
+          cart: { items: [{ sku: 'A' }], coupon: 'SAVE10' },
+          shipping: { street: '1 Main St' },
+        },
+        10,
+        ['context']
+      )
+      expect(result).toEqual({
+        orderId: 'o-1',
+        email: '[FILTERED]',
+        cart: { items: [{ sku: 'A' }], coupon: '[FILTERED]' },
+        shipping: '[FILTERED]',
+      })
+    })
+
+    it('still applies filterKeys inside allowed fields', () => {
+      init({ apiKey: 'test-key', allowKeys: ['context.account'] })
+      expect(sanitize({ account: { id: 'a-1', token: 'abc' } }, 10, ['context'])).toEqual({
+        account: { id: 'a-1', token: '[FILTERED]' },
+      })
+    })
+
+    it('filters everything with an empty allowlist', () => {
+      init({ apiKey: 'test-key', allowKeys: [] })
+      expect(sanitize({ page: 'home' }, 10, ['context'])).toEqual({ page: '[FILTERED]' })
+    })
+
+    it('restricts user data without key filtering', () => {
+      init({ apiKey: 'test-key', allowKeys: ['user.id', 'user.email'] })
+      expect(
+        restrictToAllowKeys({ id: '1', email: 'jane@example.com', name: 'Jane' }, ['user'])
+      ).toEqual({ id: '1', email: 'jane@example.com', name: '[FILTERED]' })
+    })
+
+    it('leaves data untouched without an allowlist', () => {
+      init({ apiKey: 'test-key' })
+      expect(restrictToAllowKeys({ id: '1', name: 'Jane' }, ['user'])).toEqual({
+        id: '1',
+        name: 'Jane',
+      })
+    })
+
+    it('passes string entries to the client config', () => {
+      const config = toPublicConfig({ apiKey: 'key', allowKeys: ['user.id', /^trace/] })
+      expect(config.allowKeys).toEqual(['user.id'])
+      expect(toPublicConfig({ apiKey: 'key', allowKeys: [] }).allowKeys).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createExceptionMatcher, isSerializableIgnoreRule } from '../src/ignored-exceptions'
+import {
+  init,
+  reset,
+  shouldIgnoreException,
+  getSdkIgnoreOptions,
+  toPublicConfig,
+} from '../src/config'
+
+class ChunkLoadError extends Error {
+  name = 'ChunkLoadError'
+}
+
+describe('ignored exceptions', () => {
+  describe('constructors', () => {
+    it('ignores instances of the class and its subclasses', () => {
+      class RetryableChunkError extends ChunkLoadError {}
+      const matches = createExceptionMatcher([ChunkLoadError])
+
+      expect(matches(new ChunkLoadError('Loading chunk 1 failed'))).toBe(true)
+      expect(matches(new RetryableChunkError('Loading chunk 2 failed'))).toBe(true)
+      expect(matches(new Error('Loading chunk 3 failed'))).toBe(false)
+    })
+
+    it('treats built-in error classes as constructors', () => {
+      const matches = createExceptionMatcher([TypeError])
+      expect(matches(new TypeError('x'))).toBe(true)
+      expect(matches(new RangeError('x'))).toBe(false)
+    })
+  })
+
+  describe('predicates', () => {
+    it('receives the error and where it happened', () => {
+      const predicate = vi.fn((error: Error) => error.message.startsWith('Bot'))
+      const matches = createExceptionMatcher([predicate])
+
+      expect(matches(new Error('Bot detected'), { runtime: 'edge', route: '/api' })).toBe(true)
+      expect(predicate).toHaveBeenCalledWith(expect.any(Error), { runtime: 'edge', route: '/api' })
+    })
+
+    it('supports plain functions', () => {
+      const matches = createExceptionMatcher([
+        function isNoise(error: Error) {
+          return error.message === 'noise'
+        },
+      ])
+      expect(matches(new Error('noise'))).toBe(true)
+    })
+
+    it('does not ignore the error when a predicate throws', () => {
+      const onError = vi.fn()
+      const matches = createExceptionMatcher(
+        [
+          () => {
+            throw new Error('broken predicate')
+          },
+        ],
+        onError
+      )
+
+      expect(matches(new Error('Test'))).toBe(false)
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'broken predicate' }))
+    })
+  })
+
+  describe('rules', () => {
+    it('requires every given field to match', () => {
+      const matches = createExceptionMatcher([
+        { name: 'AbortError', messagePattern: /aborted/i, route: '/api/:path*', runtime: 'edge' },
+      ])
+      const error = new Error('The operation was aborted')
+      error.name = 'AbortError'
+
+      expect(matches(error, { runtime: 'edge', route: '/api/search' })).toBe(true)
+      expect(matches(error, { runtime: 'server', route: '/api/search' })).toBe(false)
+      expect(matches(error, { runtime: 'edge', route: '/dashboard' })).toBe(false)
+      expect(matches(error, { runtime: 'edge' })).toBe(false)
+    })
+
+    it('accepts several runtimes and message substrings', () => {
+      const matches = createExceptionMatcher([
+        { messagePattern: 'ResizeObserver loop', runtime: ['client', 'edge'] },
+      ])
+      const error = new Error('ResizeObserver loop limit exceeded')
+
+      expect(matches(error, { runtime: 'client' })).toBe(true)
+      expect(matches(error, { runtime: 'server' })).toBe(false)
+    })
+
+    it('never matches with an empty rule', () => {
+      expect(createExceptionMatcher([{}])(new Error('Test'))).toBe(false)
+    })
+
+    it('tells serializable rules apart', () => {
+      expect(isSerializableIgnoreRule({ name: 'AbortError', runtime: ['edge'] })).toBe(true)
+      expect(isSerializableIgnoreRule({ name: /Abort/ })).toBe(false)
+      expect(isSerializableIgnoreRule(/Abort/)).toBe(false)
+    })
+  })
+
+  describe('configuration', () => {
+    beforeEach(() => {
+      reset()
+    })
+
+    it('applies rules through shouldIgnoreException', () => {
+      init({
+        apiKey: 'test-key',
+        ignoredExceptions: [ChunkLoadError, { name: 'AbortError', runtime: 'server' }],
+      })
+      const abort = new Error('aborted')
+      abort.name = 'AbortError'
+
+      expect(shouldIgnoreException(new ChunkLoadError('failed'))).toBe(true)
+      expect(shouldIgnoreException(abort, { runtime: 'server' })).toBe(true)
+      expect(shouldIgnoreException(abort, { runtime: 'client' })).toBe(false)
+    })
+
+    it('passes only strings and RegExps to the underlying SDK', () => {
+      init({ apiKey: 'test-key', ignoredExceptions: ['AbortError', /^ECONN/] })
+      expect(getSdkIgnoreOptions('server')).toEqual({ ignoredExceptions: ['AbortError', /^ECONN/] })
+    })
+
+    it('applies the other entries to notices the SDK builds itself', () => {
+      init({
+        apiKey: 'test-key',
+        ignoredExceptions: ['AbortError', { name: 'ChunkLoadError', runtime: 'client' }],
+      })
+      const options = getSdkIgnoreOptions('client')
+      const [beforeNotify] = options.beforeNotify!
+
+      expect(options.ignoredExceptions).toEqual(['AbortError'])
+      expect(beforeNotify({ errorClass: 'ChunkLoadError', message: 'failed' })).toBe(false)
+      expect(beforeNotify({ errorClass: 'TypeError', message: 'failed' })).toBe(true)
+
+      const [serverBeforeNotify] = getSdkIgnoreOptions('server').beforeNotify!
+      expect(serverBeforeNotify({ errorClass: 'ChunkLoadError' })).toBe(true)
+    })
+
+    it('sends serializable rules to the client config', () => {
+      const config = toPublicConfig({
+        apiKey: 'key',
+        ignoredExceptions: ['AbortError', ChunkLoadError, { name: 'TypeError', runtime: 'client' }],
+      })
+      expect(config.ignoredExceptions).toEqual([
+        'AbortError',
+        { name: 'TypeError', runtime: 'client' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { NextApiRequest, NextApiResponse, NextPageContext } from 'next'
+import { init, reset } from '../src/config'
+import {
+  withCheckendApiRoute,
+  withCheckendServerSideProps,
+  withCheckendStaticProps,
+  withCheckendInitialProps,
+  notifyErrorPage,
+} from '../src/integrations/pages-router'
+import { notify } from '../src/server'
+import { onRequestError } from '../src/integrations/instrumentation'
+import { flushPipeline } from '../src/pipeline'
+
+const send = vi.hoisted(() => vi.fn())
+
+vi.mock('../src/server', async () => {
+  const { processError } = await import('../src/pipeline')
+  return {
+    // Through the pipeline, so a wrapper's report can be merged with onRequestError's
+    notify: vi.fn((error: Error, options?: object) => {
+      void processError(error, { ...options, runtime: 'server' }, send)
+    }),
+    addBreadcrumb: vi.fn(),
+    runWithContext: (fn: () => unknown) => fn(),
+  }
+})
+
+const headers = { 'user-agent': 'Mozilla/5.0', cookie: 'session=abc' }
+
+describe('Pages Router integrations', () => {
+  beforeEach(async () => {
+    await flushPipeline()
+    reset()
+    vi.mocked(notify).mockClear()
+    send.mockClear()
+    init({ apiKey: 'test-key' })
+  })
+
+  describe('withCheckendApiRoute', () => {
+    it('reports and rethrows errors with the request', async () => {
+      const error = new Error('Database down')
+      const handler = withCheckendApiRoute(() => {
+        throw error
+      })
+      const req = { url: '/api/users/7?expand=1', method: 'GET', headers, query: { id: '7' } }
+
+      await expect(handler(req as unknown as NextApiRequest, {} as NextApiResponse)).rejects.toBe(
+        error
+      )
+      expect(notify).toHaveBeenCalledWith(error, {
+        request: { url: '/api/users/7?expand=1', method: 'GET', headers },
+        context: { query: { id: '7' } },
+        tags: undefined,
+        route: '/api/users/7',
+        rethrown: true,
+      })
+    })
+
+    it('is reported once with the onRequestError report of the same error', async () => {
+      const error = new Error('Database down')
+      const handler = withCheckendApiRoute(() => {
+        throw error
+      })
+      const req = { url: '/api/users/7', method: 'GET', headers, query: { id: '7' } }
+
+      await expect(handler(req as unknown as NextApiRequest, {} as NextApiResponse)).rejects.toBe(
+        error
+      )
+      await onRequestError(
+        error,
+        { path: '/api/users/7', method: 'GET', headers },
+        { routerKind: 'Pages Router', routePath: '/api/users/[id]', routeType: 'route' }
+      )
+      await flushPipeline()
+
+      expect(send).toHaveBeenCalledOnce()
+      expect(send.mock.calls[0][0].event.context).toMatchObject({
+        query: { id: '7' },
+        routerKind: 'Pages Router',
+      })
+    })
+
+    it('skips ignored routes', async () => {
+      reset()
+      init({ apiKey: 'test-key', ignoredRoutes: ['/api/health'] })
+      const handler = withCheckendApiRoute(() => {
+        throw new Error('down')
+      })
+      const req = { url: '/api/health', method: 'GET', headers, query: {} }
+
+      await expect(
+        handler(req as unknown as NextApiRequest, {} as NextApiResponse)
+      ).rejects.toThrow()
+      expect(notify).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('withCheckendServerSideProps', () => {
+    it('reports errors with the request, params and data function', async () => {
+      const getServerSideProps = withCheckendServerSideProps(
+        async () => {
+          throw 'not an error'
+        },
+        { tags: ['posts'] }
+      )
+      const context = {
+        req: { url: '/posts/7', method: 'GET', headers },
+        res: {},
+        params: { id: '7' },
+        query: { id: '7' },
+        resolvedUrl: '/posts/7',
+      }
+
+      await expect(getServerSideProps(context as never)).rejects.toBe('not an error')
+      const [error, options] = vi.mocked(notify).mock.calls[0]
+      expect(error.message).toBe('not an error')
+      expect(options).toMatchObject({
+        request: { url: '/posts/7', method: 'GET', params: { id: '7' } },
+        context: { dataFunction: 'getServerSideProps', resolvedUrl: '/posts/7' },
+        tags: ['posts'],
+        route: '/posts/7',
+        rethrown: true,
+      })
+    })
+
+    it('returns the result when nothing is thrown', async () => {
+      const getServerSideProps = withCheckendServerSideProps(async () => ({ props: { a: 1 } }))
+
+      await expect(getServerSideProps({ resolvedUrl: '/' } as never)).resolves.toEqual({
+        props: { a: 1 },
+      })
+      expect(notify).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('withCheckendStaticProps', () => {
+    it('reports errors with the params', async () => {
+      const error = new Error('CMS down')
+      const getStaticProps = withCheckendStaticProps(async () => {
+        throw error
+      })
+
+      await expect(getStaticProps({ params: { slug: 'hello' } })).rejects.toBe(error)
+      expect(notify).toHaveBeenCalledWith(error, {
+        context: { dataFunction: 'getStaticProps', params: { slug: 'hello' }, locale: undefined },
+        tags: undefined,
+        rethrown: true,
+      })
+    })
+  })
+
+  describe('withCheckendInitialProps', () => {
+    it('reports errors with the page context', async () => {
+      const error = new Error('Profile failed')
+      const getInitialProps = withCheckendInitialProps(async () => {
+        throw error
+      })
+      const context = { pathname: '/profile', asPath: '/profile?id=7', query: { id: '7' } }
+
+      await expect(getInitialProps(context as unknown as NextPageContext)).rejects.toBe(error)
+      expect(notify).toHaveBeenCalledWith(error, {
+        request: undefined,
+        context: {
+          pathname: '/profile',
+          asPath: '/profile?id=7',
+          query: { id: '7' },
+          dataFunction: 'getInitialProps',
+        },
+        tags: undefined,
+        route: '/profile',
+        rethrown: true,
+      })
+    })
+  })
+
+  describe('notifyErrorPage', () => {
+    const page = { pathname: '/_error', asPath: '/orders', query: {} }
+
+    it('reports the error with its status code', async () => {
+      const err = new Error('Render failed')
+
+      const context = { ...page, err, res: { statusCode: 500 } }
+      await notifyErrorPage(context as unknown as NextPageContext)
+
+      expect(notify).toHaveBeenCalledWith(
+        err,
+        expect.objectContaining({
+          context: expect.objectContaining({ errorPage: true, statusCode: 500 }),
+          route: '/orders',
+        })
+      )
+    })
+
+    it('reports server errors without an err', async () => {
+      await notifyErrorPage({ ...page, res: { statusCode: 502 } } as unknown as NextPageContext)
+
+      const [error] = vi.mocked(notify).mock.calls[0]
+      expect(error.message).toBe('_error page rendered with status 502 and no error')
+    })
+
+    it('ignores 404s and other client errors', async () => {
+      await notifyErrorPage(page as unknown as NextPageContext)
+      await notifyErrorPage({
+        ...page,
+        err: Object.assign(new Error('Bad request'), { statusCode: 400 }),
+      } as unknown as NextPageContext)
+
+      expect(notify).not.toHaveBeenCalled()
+    })
+  })
+})
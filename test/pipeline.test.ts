@@ -0,0 +1,372 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import {
+  processError,
+  prepareNotice,
+  flushPipeline,
+  sanitizeGlobalContext,
+  sanitizeGlobalUser,
+  type PreparedNotice,
+} from '../src/pipeline'
+import { addBreadcrumb, runWithBreadcrumbs } from '../src/breadcrumbs'
+
+function throwAt(message: string): Error {
+  return new Error(message)
+}
+
+describe('pipeline', () => {
+  beforeEach(() => {
+    reset()
+    init({ apiKey: 'test-key' })
+  })
+
+  describe('processError', () => {
+    it('hands the notice to send', async () => {
+      const send = vi.fn()
+      await processError(new Error('boom'), { runtime: 'server', tags: ['a'] }, send)
+
+      expect(send).toHaveBeenCalledOnce()
+      const notice: PreparedNotice = send.mock.calls[0][0]
+      expect(notice.event.errorClass).toBe('Error')
+      expect(notice.event.message).toBe('boom')
+      expect(notice.event.tags).toEqual(['a'])
+      expect(notice.error.message).toBe('boom')
+    })
+
+    it('applies ignoredExceptions with the runtime and route', async () => {
+      reset()
+      init({
+        apiKey: 'test-key',
+        ignoredExceptions: [{ runtime: 'client', route: '/admin/:path*' }],
+      })
+      const send = vi.fn()
+
+      await processError(new Error('a'), { runtime: 'client', route: '/admin/users' }, send)
+      await processError(new Error('b'), { runtime: 'server', route: '/admin/users' }, send)
+
+      expect(send).toHaveBeenCalledOnce()
+      expect(send.mock.calls[0][0].event.message).toBe('b')
+    })
+
+    it('applies ignoredRoutes in every runtime, using the request pathname', async () => {
+      reset()
+      init({ apiKey: 'test-key', ignoredRoutes: ['/health'] })
+      const send = vi.fn()
+
+      await processError(new Error('a'), { runtime: 'client', route: '/health' }, send)
+      await processError(
+        new Error('b'),
+        { runtime: 'edge', request: new Request('https://example.com/health/live') },
+        send
+      )
+
+      expect(send).not.toHaveBeenCalled()
+    })
+
+    it('merges the onRequestError report into the notice of a rethrown error', async () => {
+      const send = vi.fn()
+      const error = new Error('boom')
+
+      const first = processError(
+        error,
+        { runtime: 'server', context: { component: 'BlogPost' }, tags: ['blog'], rethrown: true },
+        send
+      )
+      // Next.js sets the digest before calling onRequestError
+      Object.assign(error, { digest: '2338597843' })
+      await processError(
+        error,
+        {
+          runtime: 'server',
+          context: { routeType: 'render' },
+          request: { url: '/blog/hello?ref=home', method: 'GET', headers: {} },
+          route: '/blog/hello',
+        },
+        send
+      )
+      await first
+
+      expect(send).toHaveBeenCalledOnce()
+      const { event } = send.mock.calls[0][0]
+      expect(event.context).toEqual({ routeType: 'render', component: 'BlogPost' })
+      expect(event.tags).toEqual(['blog'])
+      expect(event.request).toMatchObject({ url: '/blog/hello?ref=home', method: 'GET' })
+      expect(event.digest).toBe('2338597843')
+    })
+
+    it('sends the notice of a rethrown error without waiting past a flush', async () => {
+      const send = vi.fn()
+      const error = new Error('boom')
+
+      void processError(error, { runtime: 'server', rethrown: true }, send)
+      await flushPipeline()
+      expect(send).toHaveBeenCalledOnce()
+
+      // An onRequestError report arriving after the wait isn't sent again
+      await processError(error, { runtime: 'server', context: { routeType: 'render' } }, send)
+      await flushPipeline()
+      expect(send).toHaveBeenCalledOnce()
+    })
+
+    it('waits for onRequestError for a second at most', async () => {
+      vi.useFakeTimers()
+      try {
+        const send = vi.fn()
+        const delivery = processError(new Error('boom'), { runtime: 'server', rethrown: true }, send)
+
+        await vi.advanceTimersByTimeAsync(999)
+        expect(send).not.toHaveBeenCalled()
+        await vi.advanceTimersByTimeAsync(1)
+        await delivery
+        expect(send).toHaveBeenCalledOnce()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('reports errors that are not rethrown without waiting', async () => {
+      const send = vi.fn()
+      const error = new Error('boom')
+
+      await processError(error, { runtime: 'server' }, send)
+
+      expect(send).toHaveBeenCalledOnce()
+    })
+
+    it('skips errors that are sampled out', async () => {
+      reset()
+      init({ apiKey: 'test-key', sampleRate: 0 })
+      const send = vi.fn()
+
+      await processError(new Error('boom'), { runtime: 'server' }, send)
+
+      expect(send).not.toHaveBeenCalled()
+    })
+
+    it('reports duplicates once, then sends the count on flush', async () => {
+      reset()
+      init({ apiKey: 'test-key', dedupeWindow: 60000 })
+      const send = vi.fn()
+      const errors = [1, 2, 3].map(() => throwAt('boom'))
+
+      for (const error of errors) {
+        await processError(error, { runtime: 'server' }, send)
+      }
+      expect(send).toHaveBeenCalledOnce()
+
+      await flushPipeline()
+      expect(send).toHaveBeenCalledTimes(2)
+      expect(send.mock.calls[1][0].event.context).toMatchObject({ dedupe: { duplicates: 2 } })
+    })
+
+    it('sanitizes context and request data before beforeSend', async () => {
+      const beforeSend = vi.fn((event) => event)
+      reset()
+      init({ apiKey: 'test-key', beforeSend })
+      const send = vi.fn()
+      const request = new Request('https://example.com/api/users?page=2', {
+        method: 'POST',
+        headers: { authorization: 'Bearer secret', 'x-trace': 'abc' },
+      })
+
+      await processError(
+        new Error('boom'),
+        { runtime: 'edge', request, context: { password: 'hunter2', page: 2 } },
+        send
+      )
+
+      const event = beforeSend.mock.calls[0][0]
+      expect(event.context).toEqual({ password: '[FILTERED]', page: 2 })
+      expect(event.request).toMatchObject({
+        url: '/api/users?page=2',
+        method: 'POST',
+        headers: { authorization: '[FILTERED]', 'x-trace': 'abc' },
+      })
+      expect(send).toHaveBeenCalledOnce()
+    })
+
+    it('accepts plain request objects and filters client IPs by default', async () => {
+      const beforeSend = vi.fn((event) => event)
+      reset()
+      init({ apiKey: 'test-key', beforeSend })
+      const send = vi.fn()
+      const request = {
+        url: '/users/7',
+        method: 'GET',
+        headers: { 'x-forwarded-for': ['203.0.113.7', '10.0.0.1'], accept: 'text/html' },
+        params: { id: '7', token: 'abc' },
+      }
+
+      await processError(new Error('boom'), { runtime: 'server', request }, send)
+      expect(beforeSend.mock.calls[0][0].request).toEqual({
+        url: '/users/7',
+        method: 'GET',
+        headers: { 'x-forwarded-for': '[FILTERED]', accept: 'text/html' },
+        params: { id: '7', token: '[FILTERED]' },
+      })
+
+      reset()
+      init({ apiKey: 'test-key', beforeSend, captureClientIp: true })
+      await processError(new Error('boom'), { runtime: 'server', request }, send)
+      expect(beforeSend.mock.calls[1][0].request).toMatchObject({ client_ip: '203.0.113.7' })
+    })
+
+    it('drops the notice when beforeSend returns null', async () => {
+      reset()
+      init({ apiKey: 'test-key', beforeSend: () => null })
+      const send = vi.fn()
+
+      await processError(new Error('boom'), { runtime: 'server' }, send)
+
+      expect(send).not.toHaveBeenCalled()
+    })
+
+    it('serializes values added by beforeSend and rebuilds the error', async () => {
+      reset()
+      init({
+        apiKey: 'test-key',
+        beforeSend: (event) => ({
+          ...event,
+          message: 'rewritten',
+          context: { at: new Date(0), handler: () => {} },
+        }),
+      })
+      const send = vi.fn()
+      const error = new TypeError('boom')
+
+      await processError(error, { runtime: 'server' }, send)
+
+      const notice: PreparedNotice = send.mock.calls[0][0]
+      expect(JSON.parse(JSON.stringify(notice.event.context))).toEqual(notice.event.context)
+      expect(notice.error).not.toBe(error)
+      expect(notice.error).toBeInstanceOf(TypeError)
+      expect(notice.error.message).toBe('rewritten')
+    })
+
+    it('includes the cause chain and can fingerprint by root cause', async () => {
+      reset()
+      init({ apiKey: 'test-key', fingerprintRootCause: true })
+      const send = vi.fn()
+      const root = new TypeError('connection refused')
+
+      await processError(new Error('a', { cause: root }), { runtime: 'server' }, send)
+      await processError(new Error('b', { cause: root }), { runtime: 'server' }, send)
+      await processError(
+        new Error('c', { cause: root }),
+        { runtime: 'server', fingerprint: 'x' },
+        send
+      )
+
+      const [first, second, third] = send.mock.calls.map(([notice]) => notice.event)
+      expect(first.cause).toMatchObject({ errorClass: 'TypeError', message: 'connection refused' })
+      expect(first.fingerprint).toMatch(/^TypeError:/)
+      expect(second.fingerprint).toBe(first.fingerprint)
+      expect(third.fingerprint).toBe('x')
+    })
+
+    it('records the Next.js digest of the error', async () => {
+      const send = vi.fn()
+      const error = Object.assign(new Error('boom'), { digest: '2338597843' })
+
+      await processError(error, { runtime: 'server' }, send)
+
+      const notice: PreparedNotice = send.mock.calls[0][0]
+      expect(notice.event.digest).toBe('2338597843')
+    })
+
+    it('includes the breadcrumbs of the request, sanitized', async () => {
+      reset()
+      init({ apiKey: 'test-key', scrubValues: true })
+      const send = vi.fn()
+
+      await runWithBreadcrumbs(async () => {
+        addBreadcrumb({
+          category: 'auth',
+          message: 'Signed in jane@example.com',
+          data: { password: 'hunter2', attempt: 2 },
+        })
+        await processError(new Error('boom'), { runtime: 'server' }, send)
+      })
+      await processError(new Error('outside'), { runtime: 'server' }, send)
+
+      const [inside, outside] = send.mock.calls.map(([notice]) => notice.event)
+      expect(inside.breadcrumbs).toMatchObject([
+        {
+          category: 'auth',
+          message: 'Signed in [FILTERED:email]',
+          data: { password: '[FILTERED]', attempt: 2 },
+        },
+      ])
+      expect(outside.breadcrumbs).toBeUndefined()
+    })
+
+    it("leaves breadcrumbs recorded outside a request off other requests' notices", async () => {
+      const send = vi.fn()
+
+      // e.g. a fetch from a route no wrapper scopes, then onRequestError for another request
+      addBreadcrumb({ category: 'fetch', message: 'GET https://api.example.com/users 200' })
+      await processError(
+        new Error('boom'),
+        { runtime: 'server', request: { url: '/account', method: 'GET', headers: {} } },
+        send
+      )
+
+      expect(send.mock.calls[0][0].event.breadcrumbs).toBeUndefined()
+    })
+
+    it('never rejects when send throws', async () => {
+      reset()
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+      init({ apiKey: 'test-key', logger })
+      const send = vi.fn(() => {
+        throw new Error('network down')
+      })
+
+      await expect(processError(new Error('boom'), { runtime: 'server' }, send)).resolves.toBe(
+        undefined
+      )
+      expect(logger.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('prepareNotice', () => {
+    it('skips deduplication', async () => {
+      reset()
+      init({ apiKey: 'test-key', dedupeWindow: 60000 })
+      const errors = [1, 2].map(() => throwAt('boom'))
+
+      expect(await prepareNotice(errors[0], { runtime: 'server' })).not.toBeNull()
+      expect(await prepareNotice(errors[1], { runtime: 'server' })).not.toBeNull()
+    })
+
+    it('resolves to null for ignored errors', async () => {
+      reset()
+      init({ apiKey: 'test-key', ignoredExceptions: ['boom'] })
+
+      expect(await prepareNotice(new Error('boom'), { runtime: 'edge' })).toBeNull()
+    })
+  })
+
+  describe('global context and user', () => {
+    it('filters global context like notice context', () => {
+      expect(sanitizeGlobalContext({ plan: 'pro', apiKey: 'abc' })).toEqual({
+        plan: 'pro',
+        apiKey: '[FILTERED]',
+      })
+    })
+
+    it('applies allowKeys to global context and user', () => {
+      reset()
+      init({ apiKey: 'test-key', allowKeys: ['context.plan', 'user.id'] })
+
+      expect(sanitizeGlobalContext({ plan: 'pro', tenant: 'acme' })).toEqual({
+        plan: 'pro',
+        tenant: '[FILTERED]',
+      })
+      expect(sanitizeGlobalUser({ id: '42', email: 'jane@example.com' })).toEqual({
+        id: '42',
+        email: '[FILTERED]',
+      })
+    })
+  })
+})
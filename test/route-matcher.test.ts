@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { compileRoutePattern, createRouteMatcher } from '../src/route-matcher'
+import { init, reset, shouldIgnoreRoute, getRouteMatcher } from '../src/config'
+
+describe('route matcher', () => {
+  describe('plain paths', () => {
+    const matches = createRouteMatcher(['/api', '/health/'])
+
+    it('matches the path and its sub-paths', () => {
+      expect(matches('/api')).toBe(true)
+      expect(matches('/api/users')).toBe(true)
+      expect(matches('/health')).toBe(true)
+    })
+
+    it('does not match on a partial segment', () => {
+      expect(matches('/apiary')).toBe(false)
+      expect(matches('/healthcheck')).toBe(false)
+    })
+
+    it('ignores the query string and trailing slash', () => {
+      expect(matches('/api/?page=2')).toBe(true)
+      expect(matches('/api#top')).toBe(true)
+    })
+  })
+
+  describe('matcher syntax', () => {
+    it('matches zero or more segments with :path*', () => {
+      const pattern = compileRoutePattern('/api/:path*')
+      expect(pattern.test('/api')).toBe(true)
+      expect(pattern.test('/api/users/1')).toBe(true)
+      expect(pattern.test('/apiary')).toBe(false)
+    })
+
+    it('matches one or more segments with :path+', () => {
+      const pattern = compileRoutePattern('/docs/:path+')
+      expect(pattern.test('/docs')).toBe(false)
+      expect(pattern.test('/docs/intro/setup')).toBe(true)
+    })
+
+    it('matches a single segment with :slug and an optional one with :slug?', () => {
+      expect(compileRoutePattern('/blog/:slug').test('/blog/hello')).toBe(true)
+      expect(compileRoutePattern('/blog/:slug').test('/blog/hello/comments')).toBe(false)
+      expect(compileRoutePattern('/blog/:slug').test('/blog/hello/')).toBe(true)
+      expect(compileRoutePattern('/shop/:category?').test('/shop')).toBe(true)
+      expect(compileRoutePattern('/shop/:category?').test('/shop/shoes')).toBe(true)
+    })
+
+    it('supports custom parameter patterns', () => {
+      const pattern = compileRoutePattern('/users/:id(\\d+)')
+      expect(pattern.test('/users/42')).toBe(true)
+      expect(pattern.test('/users/me')).toBe(false)
+    })
+
+    it('supports negative lookaheads', () => {
+      const matches = createRouteMatcher(['/((?!api|_next/static|favicon.ico).*)'])
+      expect(matches('/')).toBe(true)
+      expect(matches('/dashboard/settings')).toBe(true)
+      expect(matches('/api/users')).toBe(false)
+      expect(matches('/_next/static/chunk.js')).toBe(false)
+    })
+
+    it('escapes literal characters', () => {
+      const pattern = compileRoutePattern('/files/:name.json')
+      expect(pattern.test('/files/report.json')).toBe(true)
+      expect(pattern.test('/files/reportxjson')).toBe(false)
+    })
+
+    it('rejects unbalanced parentheses', () => {
+      expect(() => compileRoutePattern('/((?!api.*)')).toThrow('unbalanced parentheses')
+    })
+  })
+
+  describe('route groups and locales', () => {
+    it('drops route groups from patterns and paths', () => {
+      const matches = createRouteMatcher(['/(marketing)/about', '/admin/:path*'])
+      expect(matches('/about')).toBe(true)
+      expect(matches('/(dashboard)/admin/users')).toBe(true)
+    })
+
+    it('matches paths with a locale prefix', () => {
+      const matches = createRouteMatcher(['/admin', '/blog/:slug'], { locales: ['en', 'fr'] })
+      expect(matches('/fr/admin')).toBe(true)
+      expect(matches('/en/blog/hello')).toBe(true)
+      expect(matches('/de/admin')).toBe(false)
+    })
+  })
+
+  it('tests RegExps against the path', () => {
+    const matches = createRouteMatcher([/\/internal$/g])
+    expect(matches('/api/internal')).toBe(true)
+    expect(matches('/api/internal')).toBe(true)
+    expect(matches('/api/internal/x')).toBe(false)
+  })
+
+  describe('shouldIgnoreRoute', () => {
+    beforeEach(() => {
+      reset()
+    })
+
+    it('uses the configured patterns and locales', () => {
+      init({ apiKey: 'test-key', ignoredRoutes: ['/api', '/blog/:slug'], locales: ['fr'] })
+      expect(shouldIgnoreRoute('/api/users')).toBe(true)
+      expect(shouldIgnoreRoute('/apiary')).toBe(false)
+      expect(shouldIgnoreRoute('/fr/blog/hello')).toBe(true)
+    })
+
+    it('compiles the matcher once per configuration', () => {
+      init({ apiKey: 'test-key', ignoredRoutes: ['/health'] })
+      expect(getRouteMatcher()).toBe(getRouteMatcher())
+
+      init({ apiKey: 'test-key', ignoredRoutes: ['/status'] })
+      expect(getRouteMatcher()('/health')).toBe(false)
+    })
+  })
+})
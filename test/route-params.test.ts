@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { extractRouteParams } from '../src/route-params'
+
+describe('extractRouteParams', () => {
+  it('extracts dynamic segments', () => {
+    expect(extractRouteParams('/blog/[slug]', '/blog/hello-world')).toEqual({ slug: 'hello-world' })
+    expect(extractRouteParams('/shop/[category]/[id]', '/shop/shoes/42?color=red')).toEqual({
+      category: 'shoes',
+      id: '42',
+    })
+  })
+
+  it('extracts catch-all and optional catch-all segments', () => {
+    expect(extractRouteParams('/docs/[...path]', '/docs/a/b/c')).toEqual({ path: ['a', 'b', 'c'] })
+    expect(extractRouteParams('/shop/[[...filters]]', '/shop/red/xl')).toEqual({
+      filters: ['red', 'xl'],
+    })
+    expect(extractRouteParams('/shop/[[...filters]]', '/shop')).toEqual({})
+  })
+
+  it('ignores route groups, slots, route files and the router directory', () => {
+    expect(extractRouteParams('/(marketing)/blog/[slug]/page', '/blog/hi')).toEqual({ slug: 'hi' })
+    expect(extractRouteParams('/@modal/(.)photo/[id]', '/photo/7')).toEqual({ id: '7' })
+    expect(extractRouteParams('/app/api/users/[id]/route', '/api/users/7')).toEqual({ id: '7' })
+    expect(extractRouteParams('/pages/posts/[id]', '/posts/7')).toEqual({ id: '7' })
+  })
+
+  it('decodes values', () => {
+    expect(extractRouteParams('/search/[term]', '/search/caf%C3%A9')).toEqual({ term: 'café' })
+  })
+
+  it('returns undefined for static or non-matching routes', () => {
+    expect(extractRouteParams('/about', '/about')).toBeUndefined()
+    expect(extractRouteParams('/blog/[slug]', '/docs/intro')).toBeUndefined()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import { getSampleRate, sample, withSamplingContext } from '../src/sampling'
+
+class ChunkLoadError extends Error {
+  name = 'ChunkLoadError'
+}
+
+describe('sampling', () => {
+  beforeEach(() => {
+    reset()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('init validation', () => {
+    it('rejects sample rates outside 0..1', () => {
+      expect(() => init({ apiKey: 'test-key', sampleRate: 1.5 })).toThrow(
+        'sampleRate must be a number between 0 and 1'
+      )
+      expect(() =>
+        init({ apiKey: 'test-key', sampleRates: { '/api': -0.1 } })
+      ).toThrow("sampleRates['/api']")
+    })
+  })
+
+  describe('getSampleRate', () => {
+    it('defaults to 1', () => {
+      init({ apiKey: 'test-key' })
+      expect(getSampleRate(new Error('x'))).toEqual({ rate: 1 })
+    })
+
+    it('uses the global sampleRate', () => {
+      init({ apiKey: 'test-key', sampleRate: 0.5 })
+      expect(getSampleRate(new Error('x'), '/api/users')).toEqual({ rate: 0.5 })
+    })
+
+    it('matches error class overrides', () => {
+      init({ apiKey: 'test-key', sampleRates: { ChunkLoadError: 0.1 } })
+      expect(getSampleRate(new ChunkLoadError('x'))).toEqual({
+        rate: 0.1,
+        rule: 'ChunkLoadError',
+      })
+    })
+
+    it('matches the longest route override', () => {
+      init({
+        apiKey: 'test-key',
+        sampleRates: { '/api': 0.5, '/api/search': 0.25 },
+      })
+      expect(getSampleRate(new Error('x'), '/api/search/users')).toEqual({
+        rate: 0.25,
+        rule: '/api/search',
+      })
+      expect(getSampleRate(new Error('x'), '/api/users')).toEqual({
+        rate: 0.5,
+        rule: '/api',
+      })
+    })
+
+    it('matches route overrides on segment boundaries', () => {
+      init({ apiKey: 'test-key', sampleRates: { '/api/search': 0.25 } })
+
+      expect(getSampleRate(new Error('x'), '/api/search').rule).toBe('/api/search')
+      expect(getSampleRate(new Error('x'), '/api/search/users?q=1').rule).toBe('/api/search')
+      expect(getSampleRate(new Error('x'), '/api/searchable')).toEqual({ rate: 1 })
+    })
+
+    it('prefers error class overrides over route overrides', () => {
+      init({
+        apiKey: 'test-key',
+        sampleRates: { ChunkLoadError: 0.1, '/api/search': 0.25 },
+      })
+      expect(getSampleRate(new ChunkLoadError('x'), '/api/search').rule).toBe(
+        'ChunkLoadError'
+      )
+    })
+  })
+
+  describe('sample', () => {
+    it('always samples at rate 1 and never at rate 0', () => {
+      init({ apiKey: 'test-key', sampleRates: { '/never': 0 } })
+      expect(sample(new Error('x')).sampled).toBe(true)
+      expect(sample(new Error('x'), '/never').sampled).toBe(false)
+    })
+
+    it('samples against Math.random', () => {
+      init({ apiKey: 'test-key', sampleRate: 0.25 })
+      vi.spyOn(Math, 'random').mockReturnValue(0.2)
+      expect(sample(new Error('x'))).toEqual({ sampled: true, rate: 0.25 })
+      vi.spyOn(Math, 'random').mockReturnValue(0.3)
+      expect(sample(new Error('x'))).toEqual({ sampled: false, rate: 0.25 })
+    })
+  })
+
+  describe('withSamplingContext', () => {
+    it('leaves full-rate notices untouched', () => {
+      const context = { userId: '1' }
+      expect(withSamplingContext(context, { sampled: true, rate: 1 })).toBe(context)
+    })
+
+    it('records the rate and rule', () => {
+      expect(
+        withSamplingContext({ userId: '1' }, { sampled: true, rate: 0.25, rule: '/api' })
+      ).toEqual({ userId: '1', sampling: { rate: 0.25, rule: '/api' } })
+    })
+  })
+})
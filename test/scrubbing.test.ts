@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { init, reset, sanitize, scrubText, scrubErrorText } from '../src/config'
+import { createValueScrubber } from '../src/scrubbing'
+
+// Built from parts so secret scanners don't flag the fixture
+const JWT = ['eyJhbGciOiJIUzI1NiJ9', 'eyJzdWIiOiIxMjM0In0', 'c2lnbmF0dXJl'].join('.')
+
+describe('value scrubbing', () => {
+  describe('createValueScrubber', () => {
+    const scrub = createValueScrubber()
+
+    it('masks email addresses', () => {
+      expect(scrub('User jane.doe+x@example.co.uk not found')).toBe(
+        'User [FILTERED:email] not found'
+      )
+    })
+
+    it('masks Luhn-valid card numbers only', () => {
+      expect(scrub('card 4111 1111 1111 1111 declined')).toBe(
+        'card [FILTERED:creditCard] declined'
+      )
+      expect(scrub('order 4111111111111112')).toBe('order 4111111111111112')
+    })
+
+    it('masks JWTs and bearer tokens', () => {
+      expect(scrub(`token=${JWT}`)).toBe('token=[FILTERED:jwt]')
+      expect(scrub('Authorization: Bearer abc.def-123')).toBe(
+        'Authorization: [FILTERED:bearer]'
+      )
+    })
+
+    it('masks valid IBANs', () => {
+      expect(scrub('IBAN GB82 WEST 1234 5698 7654 32')).toBe('IBAN [FILTERED:iban]')
+      expect(scrub('IBAN GB00 WEST 1234 5698 7654 32')).toBe(
+        'IBAN GB00 WEST 1234 5698 7654 32'
+      )
+    })
+
+    it('masks IPv4 and IPv6 addresses', () => {
+      expect(scrub('from 192.168.1.20')).toBe('from [FILTERED:ipv4]')
+      expect(scrub('from 2001:db8::8a2e:370:7334')).toBe('from [FILTERED:ipv6]')
+      expect(scrub('from ::1 ok')).toBe('from [FILTERED:ipv6] ok')
+    })
+
+    it('leaves look-alikes alone', () => {
+      expect(scrub('at 12:30:45 in Foo::bar')).toBe('at 12:30:45 in Foo::bar')
+      expect(scrub('version 1.2.3')).toBe('version 1.2.3')
+    })
+
+    it('hashes values consistently', () => {
+      const hash = createValueScrubber({ strategy: 'hash' })
+      const first = hash('a@example.com')
+      expect(first).toMatch(/^\[email:[0-9a-f]+\]$/)
+      expect(hash('a@example.com')).toBe(first)
+      expect(hash('b@example.com')).not.toBe(first)
+    })
+
+    it('drops values', () => {
+      const drop = createValueScrubber({ strategy: 'drop' })
+      expect(drop('contact a@example.com now')).toBe('contact  now')
+      expect(drop('a@example.com')).toBeUndefined()
+    })
+
+    it('supports selected detectors and per-detector strategies', () => {
+      const custom = createValueScrubber({
+        detectors: ['email', 'ipv4'],
+        strategies: { ipv4: 'drop' },
+      })
+      expect(custom('a@example.com 10.0.0.1 4111111111111111')).toBe(
+        '[FILTERED:email]  4111111111111111'
+      )
+    })
+  })
+
+  describe('with config', () => {
+    beforeEach(() => {
+      reset()
+    })
+
+    it('is disabled by default', () => {
+      init({ apiKey: 'test-key' })
+      expect(scrubText('a@example.com')).toBe('a@example.com')
+      expect(sanitize({ email: 'a@example.com' })).toEqual({ email: 'a@example.com' })
+    })
+
+    it('scrubs string values in sanitize()', () => {
+      init({ apiKey: 'test-key', scrubValues: true })
+      const result = sanitize({
+        note: 'call a@example.com',
+        nested: { ips: ['10.0.0.1', 'ok'] },
+        password: 'secret',
+      })
+      expect(result).toEqual({
+        note: 'call [FILTERED:email]',
+        nested: { ips: ['[FILTERED:ipv4]', 'ok'] },
+        password: '[FILTERED]',
+      })
+    })
+
+    it('omits dropped values in sanitize()', () => {
+      init({ apiKey: 'test-key', scrubValues: { strategy: 'drop' } })
+      expect(sanitize({ email: 'a@example.com', ips: ['10.0.0.1', 'ok'] })).toEqual({
+        ips: ['ok'],
+      })
+    })
+
+    it('scrubs error messages and stacks', () => {
+      init({ apiKey: 'test-key', scrubValues: true })
+      const error = new TypeError('No user a@example.com')
+      const scrubbed = scrubErrorText(error)
+
+      expect(scrubbed).not.toBe(error)
+      expect(scrubbed).toBeInstanceOf(TypeError)
+      expect(scrubbed.name).toBe('TypeError')
+      expect(scrubbed.message).toBe('No user [FILTERED:email]')
+      expect(scrubbed.stack).not.toContain('a@example.com')
+      expect(error.message).toBe('No user a@example.com')
+    })
+
+    it('returns the original error when nothing was scrubbed', () => {
+      init({ apiKey: 'test-key', scrubValues: true })
+      const error = new Error('Nothing to see')
+      expect(scrubErrorText(error)).toBe(error)
+    })
+  })
+})
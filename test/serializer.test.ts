@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { serialize } from '../src/serializer'
+import { init, reset, sanitize } from '../src/config'
+
+class User {
+  constructor(public id: number, public name: string) {}
+}
+
+class Connection {}
+
+describe('serialize', () => {
+  it('cuts circular references', () => {
+    const order: Record<string, unknown> = { id: 1 }
+    const customer = { name: 'Jane', orders: [order] }
+    order.customer = customer
+
+    expect(serialize(customer)).toEqual({
+      name: 'Jane',
+      orders: [{ id: 1, customer: '[Circular]' }],
+    })
+  })
+
+  it('keeps repeated but non-circular references', () => {
+    const shared = { id: 1 }
+    expect(serialize({ a: shared, b: shared })).toEqual({ a: { id: 1 }, b: { id: 1 } })
+  })
+
+  it('represents exotic values', () => {
+    const result = serialize({
+      date: new Date('2024-01-01T00:00:00Z'),
+      invalidDate: new Date('nope'),
+      map: new Map<unknown, unknown>([['a', 1], [2, 'b']]),
+      set: new Set([1, 2]),
+      big: BigInt(10),
+      fn: function handler() {},
+      symbol: Symbol('s'),
+      regex: /ab+c/i,
+      bytes: new Uint8Array(16),
+      buffer: new ArrayBuffer(8),
+      nan: NaN,
+      url: new URL('https://example.com/a?b=1'),
+    })
+
+    expect(result).toEqual({
+      date: '2024-01-01T00:00:00.000Z',
+      invalidDate: '[Invalid Date]',
+      map: { a: 1, '2': 'b' },
+      set: [1, 2],
+      big: '10n',
+      fn: '[Function: handler]',
+      symbol: 'Symbol(s)',
+      regex: '/ab+c/i',
+      bytes: '[Uint8Array(16)]',
+      buffer: '[ArrayBuffer(8)]',
+      nan: 'NaN',
+      url: 'https://example.com/a?b=1',
+    })
+  })
+
+  it('serializes errors with their cause', () => {
+    const cause = new TypeError('inner')
+    const error = Object.assign(new Error('outer', { cause }), { code: 'E_OUTER' })
+    const result = serialize(error) as Record<string, any>
+
+    expect(result.name).toBe('Error')
+    expect(result.message).toBe('outer')
+    expect(result.stack).toContain('outer')
+    expect(result.code).toBe('E_OUTER')
+    expect(result.cause.name).toBe('TypeError')
+    expect(result.cause.message).toBe('inner')
+  })
+
+  it('serializes class instances by their own properties or name', () => {
+    expect(serialize(new User(1, 'Jane'))).toEqual({ id: 1, name: 'Jane' })
+    expect(serialize(new Connection())).toBe('[Connection]')
+  })
+
+  it('limits array length and object breadth', () => {
+    const result = serialize(
+      { items: Array.from({ length: 5 }, (_, i) => i), ...{ a: 1, b: 2, c: 3 } },
+      { maxArrayLength: 3, maxObjectKeys: 3 }
+    ) as Record<string, unknown>
+
+    expect(result.items).toEqual([0, 1, 2, '[2 more items]'])
+    expect(result['[TRUNCATED]']).toBe('1 more keys')
+  })
+
+  it('limits the total serialized size', () => {
+    const data = { a: 'x'.repeat(50), b: 'y'.repeat(50), c: 'z'.repeat(50) }
+    expect(serialize(data, { maxBytes: 60 })).toEqual({
+      a: 'x'.repeat(50),
+      b: 'y'.repeat(50),
+      c: '[TRUNCATED]',
+    })
+  })
+
+  it('produces JSON-safe output', () => {
+    const value: Record<string, unknown> = { big: BigInt(1) }
+    value.self = value
+    expect(() => JSON.stringify(serialize(value))).not.toThrow()
+  })
+})
+
+describe('sanitize with the serializer', () => {
+  beforeEach(() => {
+    reset()
+    init({ apiKey: 'test-key' })
+  })
+
+  it('handles circular context and filters keys inside Maps and errors', () => {
+    const context: Record<string, unknown> = {
+      settings: new Map([['apiKey', 'secret']]),
+      error: Object.assign(new Error('x'), { token: 'abc' }),
+    }
+    context.self = context
+
+    const result = sanitize(context) as Record<string, any>
+    expect(result.self).toBe('[Circular]')
+    expect(result.settings.apiKey).toBe('[FILTERED]')
+    expect(result.error.token).toBe('[FILTERED]')
+  })
+})
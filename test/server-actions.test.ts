@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import { withCheckendAction } from '../src/integrations/server-actions'
+import { onRequestError } from '../src/integrations/instrumentation'
+import { flushPipeline } from '../src/pipeline'
+import { notify } from '../src/server'
+
+const send = vi.hoisted(() => vi.fn())
+
+vi.mock('../src/server', async () => {
+  const { processError } = await import('../src/pipeline')
+  return {
+    // Through the pipeline, so a wrapper's report can be merged with onRequestError's
+    notify: vi.fn((error: Error, options?: object) => {
+      void processError(error, { ...options, runtime: 'server' }, send)
+    }),
+    addBreadcrumb: vi.fn(),
+    runWithContext: (fn: () => unknown) => fn(),
+  }
+})
+
+describe('withCheckendAction', () => {
+  beforeEach(async () => {
+    await flushPipeline()
+    reset()
+    vi.mocked(notify).mockClear()
+    send.mockClear()
+    init({ apiKey: 'test-key' })
+  })
+
+  it('reports and rethrows errors with the action name', async () => {
+    const error = new Error('Insert failed')
+    const createUser = withCheckendAction(
+      async (_name: string) => {
+        throw error
+      },
+      { name: 'createUser', tags: ['users'] }
+    )
+
+    await expect(createUser('Jane')).rejects.toBe(error)
+
+    expect(notify).toHaveBeenCalledWith(error, {
+      context: { actionName: 'createUser', referer: null },
+      tags: ['users'],
+      rethrown: true,
+    })
+  })
+
+  it('is reported once with the onRequestError report of the same error', async () => {
+    const error = new Error('Insert failed')
+    const createUser = withCheckendAction(
+      async () => {
+        throw error
+      },
+      { name: 'createUser' }
+    )
+
+    await expect(createUser()).rejects.toBe(error)
+    await onRequestError(
+      Object.assign(error, { digest: '2338597843' }),
+      { path: '/users/new', method: 'POST', headers: {} },
+      { routerKind: 'App Router', routePath: '/users/new', routeType: 'action' }
+    )
+    await flushPipeline()
+
+    expect(send).toHaveBeenCalledOnce()
+    const { event } = send.mock.calls[0][0]
+    expect(event.digest).toBe('2338597843')
+    expect(event.context).toMatchObject({ actionName: 'createUser', routeType: 'action' })
+    expect(event.request).toMatchObject({ url: '/users/new', method: 'POST' })
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { notFound } from 'next/navigation'
+import { init, reset } from '../src/config'
+import {
+  withCheckendServerComponent,
+  withCheckendLayout,
+} from '../src/integrations/server-component'
+import { notify } from '../src/server'
+
+vi.mock('../src/server', () => ({
+  notify: vi.fn(),
+  runWithContext: (fn: () => unknown) => fn(),
+}))
+
+describe('server component wrappers', () => {
+  beforeEach(() => {
+    reset()
+    vi.mocked(notify).mockClear()
+    init({ apiKey: 'test-key' })
+  })
+
+  it('renders the component when nothing is thrown', async () => {
+    const Page = withCheckendServerComponent(async ({ title }: { title: string }) => title)
+
+    await expect(Page({ title: 'Hello' })).resolves.toBe('Hello')
+    expect(notify).not.toHaveBeenCalled()
+  })
+
+  it('reports errors with the segment, params, searchParams, duration and props', async () => {
+    const error = new Error('Post not loaded')
+    async function BlogPost(_props: {
+      params: Promise<{ slug: string }>
+      searchParams: Promise<{ preview?: string }>
+      locale: string
+    }): Promise<never> {
+      throw error
+    }
+    const Page = withCheckendServerComponent(BlogPost, { segment: '/blog/[slug]', tags: ['blog'] })
+
+    await expect(
+      Page({
+        params: Promise.resolve({ slug: 'hello' }),
+        searchParams: Promise.resolve({ preview: '1' }),
+        locale: 'en',
+      })
+    ).rejects.toBe(error)
+
+    const [reported, options] = vi.mocked(notify).mock.calls[0]
+    expect(reported).toBe(error)
+    expect(options?.context).toMatchObject({
+      component: 'BlogPost',
+      componentType: 'page',
+      segment: '/blog/[slug]',
+      params: { slug: 'hello' },
+      searchParams: { preview: '1' },
+      props: { locale: 'en' },
+    })
+    expect(options?.context?.renderDuration).toEqual(expect.any(Number))
+    expect(options?.tags).toEqual(['blog'])
+    // Merged with the onRequestError report, which carries the digest
+    expect(options?.rethrown).toBe(true)
+  })
+
+  it('leaves children and parallel route slots out of layout props', async () => {
+    const element = { $$typeof: Symbol.for('react.element'), props: {} }
+    const Layout = withCheckendLayout(
+      async (_props: { children: unknown; modal: unknown; params: { team: string } }) => {
+        throw 'layout failed'
+      },
+      { name: 'TeamLayout' }
+    )
+
+    await expect(
+      Layout({ children: element, modal: element, params: { team: 'core' } })
+    ).rejects.toBe('layout failed')
+
+    const [reported, options] = vi.mocked(notify).mock.calls[0]
+    expect(reported.message).toBe('layout failed')
+    expect(options?.context).toMatchObject({
+      component: 'TeamLayout',
+      componentType: 'layout',
+      params: { team: 'core' },
+    })
+    expect(options?.context?.props).toBeUndefined()
+  })
+
+  it('rethrows control-flow errors without reporting them', async () => {
+    const Page = withCheckendServerComponent(async () => notFound())
+
+    await expect(Page({})).rejects.toThrow()
+    expect(notify).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,6 @@
+import { createRequire } from 'node:module'
+import { setBuiltinModuleLoader } from '../src/app-info'
+
+// What the server entry does, for Node.js versions without process.getBuiltinModule()
+const require = createRequire(import.meta.url)
+setBuiltinModuleLoader((id) => require(`node:${id}`))
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { init, reset } from '../src/config'
+import {
+  flushWithTimeout,
+  registerShutdownHandlers,
+  unregisterShutdownHandlers,
+} from '../src/shutdown'
+
+describe('shutdown', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+  beforeEach(() => {
+    reset()
+    vi.clearAllMocks()
+    init({ apiKey: 'test-key', logger })
+  })
+
+  afterEach(() => {
+    unregisterShutdownHandlers()
+    vi.useRealTimers()
+  })
+
+  describe('flushWithTimeout', () => {
+    it('resolves once the flush is done', async () => {
+      const flush = vi.fn(() => Promise.resolve())
+
+      await expect(flushWithTimeout(flush, () => 0, 1000)).resolves.toEqual({
+        completed: true,
+        dropped: 0,
+      })
+      expect(flush).toHaveBeenCalledOnce()
+    })
+
+    it('gives up after the timeout and counts what is still pending', async () => {
+      vi.useFakeTimers()
+      const result = flushWithTimeout(() => new Promise(() => {}), () => 3, 5000)
+
+      await vi.advanceTimersByTimeAsync(5000)
+      await expect(result).resolves.toEqual({ completed: false, dropped: 3 })
+    })
+
+    it('never rejects', async () => {
+      const result = await flushWithTimeout(() => Promise.reject(new Error('down')), () => 1, 1000)
+
+      expect(result).toEqual({ completed: false, dropped: 1 })
+      expect(logger.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('registerShutdownHandlers', () => {
+    const listenerCounts = () =>
+      ['SIGTERM', 'SIGINT', 'beforeExit'].map((event) => process.listenerCount(event))
+
+    it('listens for SIGTERM, SIGINT and beforeExit by default', () => {
+      const before = listenerCounts()
+
+      const unregister = registerShutdownHandlers({ flush: vi.fn(), pending: () => 0, timeout: 1 })
+      expect(listenerCounts()).toEqual(before.map((count) => count + 1))
+
+      unregister()
+      expect(listenerCounts()).toEqual(before)
+    })
+
+    it('replaces a previous registration', () => {
+      const before = process.listenerCount('beforeExit')
+
+      registerShutdownHandlers({ flush: vi.fn(), pending: () => 0, timeout: 1000 })
+      registerShutdownHandlers({ flush: vi.fn(), pending: () => 0, timeout: 1000 })
+
+      expect(process.listenerCount('beforeExit')).toBe(before + 1)
+    })
+
+    it('flushes once on the first shutdown event and reports dropped notices', async () => {
+      vi.useFakeTimers()
+      const flush = vi.fn(() => new Promise<void>(() => {}))
+      // Another listener keeps the signal from being raised again
+      const other = vi.fn()
+      process.on('SIGTERM', other)
+
+      registerShutdownHandlers({
+        flush,
+        pending: () => 2,
+        timeout: 5000,
+        events: ['SIGTERM', 'beforeExit'],
+      })
+      process.emit('SIGTERM', 'SIGTERM')
+      process.emit('beforeExit', 0)
+      await vi.advanceTimersByTimeAsync(5000)
+      process.removeListener('SIGTERM', other)
+
+      expect(flush).toHaveBeenCalledOnce()
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[Checkend] 2 notice(s) dropped on SIGTERM (flush timed out after 5000ms)'
+      )
+    })
+
+    it('only listens for the given events', () => {
+      const before = process.listenerCount('SIGINT')
+
+      registerShutdownHandlers({
+        flush: vi.fn(),
+        pending: () => 0,
+        timeout: 1000,
+        events: ['SIGTERM'],
+      })
+
+      expect(process.listenerCount('SIGINT')).toBe(before)
+    })
+  })
+})
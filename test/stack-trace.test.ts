@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseStackTrace,
+  parseStackFrame,
+  normalizeStackFile,
+  isInAppFile,
+} from '../src/stack-trace'
+
+describe('stack trace parsing', () => {
+  describe('V8', () => {
+    it('parses named and anonymous frames with columns', () => {
+      const frames = parseStackTrace(
+        [
+          'TypeError: boom',
+          '    at handler (/app/src/api.ts:10:15)',
+          '    at /app/src/index.ts:3:7',
+          '    at new Client (/app/src/client.ts:1:2)',
+        ].join('\n')
+      )
+
+      expect(frames).toEqual([
+        { file: '/app/src/api.ts', method: 'handler', line: 10, column: 15, inApp: true },
+        { file: '/app/src/index.ts', method: '<anonymous>', line: 3, column: 7, inApp: true },
+        { file: '/app/src/client.ts', method: 'new Client', line: 1, column: 2, inApp: true },
+      ])
+    })
+
+    it('parses async and eval frames', () => {
+      expect(parseStackFrame('    at async Promise.all (index 0)')).toMatchObject({
+        method: 'Promise.all',
+        file: 'index 0',
+        inApp: false,
+      })
+      expect(parseStackFrame('    at async load (/app/src/page.tsx:4:3)')).toMatchObject({
+        method: 'load',
+        line: 4,
+      })
+      expect(
+        parseStackFrame('    at eval (eval at compile (/app/src/run.ts:20:5), <anonymous>:1:1)')
+      ).toMatchObject({ method: 'eval', file: '/app/src/run.ts', line: 20, column: 5 })
+    })
+
+    it('keeps frames without a location', () => {
+      expect(parseStackFrame('    at Array.map (native)')).toEqual({
+        file: 'native',
+        method: 'Array.map',
+        line: undefined,
+        column: undefined,
+        inApp: false,
+      })
+    })
+  })
+
+  describe('SpiderMonkey and JavaScriptCore', () => {
+    it('parses frames with and without a function name', () => {
+      const frames = parseStackTrace(
+        [
+          'handleClick@http://localhost:3000/_next/static/chunks/app/page-1a2b.js:12:34',
+          '@http://localhost:3000/_next/static/chunks/app/layout-3c4d.js:5:6',
+          'async*load@http://localhost:3000/_next/static/chunks/app/page-1a2b.js:20:1',
+          'global code@http://localhost:3000/script.js:1:1',
+          'http://localhost:3000/_next/static/chunks/main-app-5e6f.js:7:8',
+        ].join('\n')
+      )
+
+      expect(frames.map((frame) => [frame.method, frame.line, frame.column, frame.inApp])).toEqual([
+        ['handleClick', 12, 34, true],
+        ['<anonymous>', 5, 6, true],
+        ['load', 20, 1, true],
+        ['global code', 1, 1, true],
+        ['<anonymous>', 7, 8, false],
+      ])
+    })
+
+    it('parses eval frames and native code', () => {
+      expect(parseStackFrame('run@http://localhost:3000/app.js line 10 > eval:1:5')).toMatchObject({
+        file: 'http://localhost:3000/app.js',
+        line: 10,
+      })
+      expect(parseStackFrame('forEach@[native code]')).toMatchObject({
+        method: 'forEach',
+        file: '[native code]',
+        inApp: false,
+      })
+    })
+
+    it('ignores lines that are not frames', () => {
+      expect(parseStackFrame('Error: something failed')).toBeNull()
+      expect(parseStackFrame('')).toBeNull()
+    })
+  })
+
+  describe('normalizeStackFile', () => {
+    it('turns bundler paths into project paths', () => {
+      expect(normalizeStackFile('webpack-internal:///(app-pages-browser)/./src/app/page.tsx')).toBe(
+        'src/app/page.tsx'
+      )
+      expect(normalizeStackFile('webpack-internal:///./src/lib/db.ts')).toBe('src/lib/db.ts')
+      expect(normalizeStackFile('webpack://_N_E/./src/app/page.tsx')).toBe('src/app/page.tsx')
+      expect(normalizeStackFile('turbopack://[project]/src/app/page.tsx')).toBe(
+        'src/app/page.tsx'
+      )
+      expect(normalizeStackFile('/app/src/page.tsx')).toBe('/app/src/page.tsx')
+    })
+
+    it('is applied to parsed frames', () => {
+      expect(
+        parseStackFrame('    at Page (webpack-internal:///(rsc)/./app/page.tsx:8:11)')
+      ).toMatchObject({ file: 'app/page.tsx', inApp: true })
+    })
+  })
+
+  describe('isInAppFile', () => {
+    it('excludes dependencies, Next.js internals and builtins', () => {
+      expect(isInAppFile('/app/node_modules/react-dom/cjs/react-dom.js')).toBe(false)
+      expect(isInAppFile('C:\\app\\node_modules\\lib\\index.js')).toBe(false)
+      expect(isInAppFile('node:internal/process/task_queues')).toBe(false)
+      expect(isInAppFile('internal/process/task_queues.js')).toBe(false)
+      expect(isInAppFile('http://localhost:3000/_next/static/chunks/framework-1a2b.js')).toBe(
+        false
+      )
+      expect(isInAppFile('http://localhost:3000/_next/static/chunks/webpack-1a2b.js')).toBe(false)
+      expect(isInAppFile('/app/.next/server/vendor-chunks/next.js')).toBe(false)
+      expect(isInAppFile('<anonymous>')).toBe(false)
+    })
+
+    it('includes application code and chunks', () => {
+      expect(isInAppFile('src/app/page.tsx')).toBe(true)
+      expect(isInAppFile('http://localhost:3000/_next/static/chunks/app/page-1a2b.js')).toBe(true)
+      expect(isInAppFile('/app/.next/server/app/page.js')).toBe(true)
+    })
+  })
+})
@@ -12,6 +12,7 @@ import {
   findNotices,
   findNoticesByClass,
   findNoticesByTag,
+  findNoticesByDigest,
   assertNoticeCount,
   assertNoNotices,
   addNotice,
@@ -100,7 +101,7 @@ describe('Testing Utilities', () => {
     beforeEach(() => {
       setup()
       addNotice({ errorClass: 'ValidationError', message: 'Invalid input', tags: ['validation', 'user-input'] })
-      addNotice({ errorClass: 'NetworkError', message: 'Connection failed', tags: ['network'] })
+      addNotice({ errorClass: 'NetworkError', message: 'Connection failed', tags: ['network'], digest: '1234' })
       addNotice({ errorClass: 'ValidationError', message: 'Missing field', tags: ['validation'] })
     })
 
@@ -119,6 +120,12 @@ describe('Testing Utilities', () => {
       const found = findNoticesByTag('validation')
       expect(found).toHaveLength(2)
     })
+
+    it('finds notices by digest', () => {
+      const found = findNoticesByDigest('1234')
+      expect(found).toHaveLength(1)
+      expect(found[0].errorClass).toBe('NetworkError')
+    })
   })
 
   describe('assertions', () => {
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { runInNewContext } from 'node:vm'
+import { init, reset } from '../src/config'
+import { toError, thrownValueContext, ThrownValueError } from '../src/throwable'
+import { prepareNotice, processError, flushPipeline } from '../src/pipeline'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+describe('thrown values', () => {
+  describe('toError', () => {
+    it('returns errors unchanged', () => {
+      const error = new TypeError('boom')
+      expect(toError(error)).toBe(error)
+    })
+
+    it('wraps strings with a stack starting at the caller', () => {
+      const error = toError('something broke')
+
+      expect(error).toBeInstanceOf(ThrownValueError)
+      expect(error.name).toBe('ThrownValueError')
+      expect(error.message).toBe('something broke')
+      expect(error.stack).toContain('throwable.test.ts')
+      expect(error.stack).not.toContain('src/throwable.ts')
+    })
+
+    it('describes objects, primitives and Responses', () => {
+      expect(toError({ message: 'Invalid input', code: 'E_INPUT' }).message).toBe('Invalid input')
+      expect(toError({ code: 'E_INPUT', field: 'email' }).message).toBe(
+        'Object was thrown with keys: code, field'
+      )
+      expect(toError(42).message).toBe('number was thrown: 42')
+      expect(toError(undefined).message).toBe('undefined was thrown')
+      expect(toError(new Response(null, { status: 500, statusText: 'Oops' })).message).toBe(
+        'Response was thrown: 500 Oops'
+      )
+    })
+
+    it('gives the same error for the same thrown object', () => {
+      const thrown = { code: 'E_INPUT' }
+      const foreign = runInNewContext('new Error("boom")')
+
+      expect(toError(thrown)).toBe(toError(thrown))
+      expect(toError(foreign)).toBe(toError(foreign))
+      expect(toError({ code: 'E_INPUT' })).not.toBe(toError(thrown))
+    })
+
+    it('copies errors from another realm', () => {
+      const foreign = runInNewContext('const e = new RangeError("out of range"); e.code = 7; e')
+
+      expect(foreign).not.toBeInstanceOf(Error)
+      const error = toError(foreign)
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error).not.toBeInstanceOf(ThrownValueError)
+      expect(error.name).toBe('RangeError')
+      expect(error.message).toBe('out of range')
+      expect(error.stack).toBe(foreign.stack)
+      expect((error as Error & { code?: number }).code).toBe(7)
+    })
+  })
+
+  describe('thrownValueContext', () => {
+    it('reduces Responses to their status and URL', () => {
+      const error = toError(new Response(null, { status: 404 }))
+
+      expect(thrownValueContext(error)).toMatchObject({ type: 'Response', status: 404 })
+    })
+
+    it('is undefined for real errors', () => {
+      expect(thrownValueContext(new Error('boom'))).toBeUndefined()
+    })
+  })
+
+  describe('reporting', () => {
+    beforeEach(() => {
+      reset()
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ id: 'test-id' }) })
+    })
+
+    it('sends the thrown value as sanitized context', async () => {
+      init({ apiKey: 'test-key' })
+
+      const notice = await prepareNotice(toError({ reason: 'denied', password: 'hunter2' }), {
+        runtime: 'server',
+      })
+
+      expect(notice?.event.errorClass).toBe('ThrownValueError')
+      expect(notice?.event.context?.thrownValue).toEqual({
+        reason: 'denied',
+        password: '[FILTERED]',
+      })
+    })
+
+    it('reports a thrown value caught twice once', async () => {
+      init({ apiKey: 'test-key' })
+      const send = vi.fn()
+      const thrown = { reason: 'denied' }
+
+      // A wrapper, then onRequestError, catching the same throw
+      await processError(toError(thrown), { runtime: 'server' }, send)
+      await processError(toError(thrown), { runtime: 'server' }, send)
+      await processError(toError('out of stock'), { runtime: 'server' }, send)
+      await processError(toError('out of stock'), { runtime: 'server' }, send)
+
+      expect(send).toHaveBeenCalledTimes(2)
+    })
+
+    it("merges onRequestError's report of a rethrown primitive into the wrapper's", async () => {
+      init({ apiKey: 'test-key', dedupeWindow: 0 })
+      const send = vi.fn()
+      const request = { url: '/api/cart', method: 'POST', headers: {} }
+
+      // Each catch gets its own ThrownValueError for the same string
+      const wrapper = processError(
+        toError('boom'),
+        { runtime: 'server', context: { url: '/api/cart' }, rethrown: true },
+        send
+      )
+      await processError(toError('boom'), { runtime: 'server', request }, send)
+      await wrapper
+      await flushPipeline()
+
+      expect(send).toHaveBeenCalledOnce()
+      const { event } = send.mock.calls[0][0]
+      expect(event.context).toMatchObject({ url: '/api/cart', thrownValue: 'boom' })
+      expect(event.context).not.toHaveProperty('dedupe')
+      expect(event.request).toMatchObject({ url: '/api/cart', method: 'POST' })
+    })
+
+    it('keeps concurrent throws of the same primitive apart', async () => {
+      init({ apiKey: 'test-key', dedupeWindow: 0 })
+      const send = vi.fn()
+
+      for (const id of [1, 2]) {
+        void processError(toError('boom'), { runtime: 'server', context: { id }, rethrown: true }, send)
+      }
+      await processError(toError('boom'), { runtime: 'server', tags: ['onRequestError'] }, send)
+      await flushPipeline()
+
+      expect(send).toHaveBeenCalledTimes(2)
+      const events = send.mock.calls.map(([notice]) => notice.event)
+      expect(events.map((event) => event.context.id)).toEqual([1, 2])
+      expect(events.map((event) => event.tags)).toEqual([['onRequestError'], undefined])
+    })
+
+    it('is reported by withCheckendMiddleware and rethrown as is', async () => {
+      init({ apiKey: 'test-key', enableEdge: true })
+      const { withCheckendMiddleware } = await import('../src/integrations/middleware')
+
+      const middleware = withCheckendMiddleware(() => {
+        throw 'unauthorized'
+      })
+
+      const request = new Request('https://example.com/dashboard')
+      await expect(middleware(request as never, undefined as never)).rejects.toBe('unauthorized')
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.error_class).toBe('ThrownValueError')
+      expect(body.message).toBe('unauthorized')
+      expect(body.context.thrownValue).toBe('unauthorized')
+    })
+  })
+})
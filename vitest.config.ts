@@ -4,5 +4,6 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    setupFiles: ['test/setup.ts'],
   },
 })